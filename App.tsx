@@ -1,92 +1,666 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Upload, Download, Copy, Image as ImageIcon, CheckCircle, X, Loader2, RotateCcw, Maximize2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Upload, Download, Copy, Image as ImageIcon, CheckCircle, X, Loader2, RotateCcw, Maximize2, ChevronLeft, ChevronRight, Brush, RefreshCw, Pipette, Layers, Bug, SlidersHorizontal, CopyPlus, History, TriangleAlert, Ban, Clock, CircleCheck, FolderOpen } from 'lucide-react';
 import JSZip from 'jszip';
-import { MAX_FILES, DEFAULT_PARAMS } from './constants';
-import { ProcessedImage, ProcessingStatus } from './types';
-import { processImage } from './services/imageProcessingService';
+import { DEFAULT_PARAMS, DEFAULT_BACKDROP, DEFAULT_EXPORT_SETTINGS, EYEDROPPER_SAMPLE_SIZES, INPUT_ACCEPT, INPUT_FORMATS, MANIFEST_FILE_NAME, MANIFEST_FILE_VERSION, OUTPUT_FORMATS, MAX_CONCURRENCY, PREVIEW_MAX_EDGE, SETTINGS_SAVE_DEBOUNCE_MS } from './constants';
+import { AlgorithmParams, Backdrop, BatchManifest, ExportSettings, EyedropperSettings, InputFile, LayerExport, MaskStroke, FileProgress, OutputFormat, ParamOverrides, ProcessedImage, ProcessingStatus, QueuedFile, RejectedFile, StoredJob, StoredResult } from './types';
+import { exportLayers, measureImage, processImage } from './services/imageProcessingService';
+import { loadBackdropImage, renderComposite } from './services/compositor';
+import { errorMessage, isAbortError, runQueue } from './services/jobQueue';
+import { filesFromClipboard, inputFilesOf, prepareInputFiles, readDroppedFiles } from './services/inputFiles';
+import { activeOverrides, paramsEqual, resolveParams, sanitizeParams } from './services/presetService';
+import { deleteJob, isQuotaError, loadJob, loadJobResults, loadQueue, loadSettings, requestPersistence, saveJob, saveQueue, saveResult, saveSettings } from './services/sessionStore';
+import ParameterPanel from './components/ParameterPanel';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import BackdropPanel from './components/BackdropPanel';
+import CompositeView, { CHECKERBOARD_STYLE } from './components/CompositeView';
+import MaskEditor from './components/MaskEditor';
+import DebugPanel from './components/DebugPanel';
+import OverridesEditor from './components/OverridesEditor';
+import HistoryPanel from './components/HistoryPanel';
+import EyedropperImage from './components/EyedropperImage';
+
+type LayerName = keyof LayerExport;
+
+const LAYER_FILES: { layer: LayerName; label: string; suffix: string }[] = [
+  { layer: 'object', label: 'Object', suffix: '_object.png' },
+  { layer: 'shadow', label: 'Shadow', suffix: '_shadow.png' },
+  { layer: 'synthetic', label: 'Synthetic', suffix: '_synthetic_shadow.png' },
+  { layer: 'matte', label: 'Matte', suffix: '_matte.png' },
+  { layer: 'psd', label: 'PSD', suffix: '.psd' },
+];
+
+// The synthetic shadow layer only exists when the result was rendered with one
+const layerFilesFor = (result: ProcessedImage) =>
+  LAYER_FILES.filter(({ layer }) => layer !== 'synthetic' || result.params.syntheticShadow !== 'none');
+
+// "shoot/a/shot.jpg" -> "shoot/a/processed_shot": archive entries mirror the source folders
+const outputBaseName = (fileName: string) => {
+  const slash = fileName.lastIndexOf('/') + 1;
+  return `${fileName.slice(0, slash)}processed_${fileName.slice(slash).replace(/\.[^/.]+$/, "")}`;
+};
+
+// Single downloads have no folders
+const withoutFolders = (fileName: string) => fileName.slice(fileName.lastIndexOf('/') + 1);
+
+// Makes names unique case-insensitively, as zip tools extract onto case-insensitive file systems:
+// a repeated name gets _2, _3, ... in input order
+const uniqueNames = (names: string[]): string[] => {
+  const taken = new Set(names.map(name => name.toLowerCase()));
+  const seen = new Set<string>();
+  return names.map(name => {
+    if (!seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      return name;
+    }
+    let n = 2;
+    while (taken.has(`${name}_${n}`.toLowerCase())) n++;
+    const unique = `${name}_${n}`;
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const IDLE_STATUS: ProcessingStatus = {
+  isProcessing: false,
+  isCancelling: false,
+  currentStep: 'Waiting for input',
+  progress: 0,
+  totalImages: 0,
+  completedImages: 0,
+  failedImages: 0,
+  files: []
+};
+
+// One image per core, leaving one for the page; every image in flight holds its decoded pixels
+const defaultConcurrency = () => Math.min(MAX_CONCURRENCY, Math.max(1, (navigator.hardwareConcurrency || 4) - 1));
+
+// Gallery entry for a result restored from IndexedDB
+const fromStored = (stored: StoredResult): ProcessedImage => ({
+  id: stored.id,
+  originalUrl: URL.createObjectURL(stored.source),
+  processedUrl: URL.createObjectURL(stored.output),
+  format: stored.format,
+  fileName: stored.fileName,
+  sourceFile: stored.source,
+  width: stored.width,
+  height: stored.height,
+  layout: stored.layout,
+  background: stored.background,
+  strokes: stored.strokes,
+  redoStrokes: stored.redoStrokes,
+  params: stored.params,
+  overrides: stored.overrides,
+  previewScale: 1,
+  createdAt: stored.createdAt
+});
+
+const FILE_STATE_ICONS: Record<FileProgress['state'], React.ReactNode> = {
+  queued: <Clock className="w-3.5 h-3.5 text-zinc-500" />,
+  processing: <Loader2 className="w-3.5 h-3.5 text-teal-400 animate-spin" />,
+  done: <CircleCheck className="w-3.5 h-3.5 text-teal-400" />,
+  failed: <TriangleAlert className="w-3.5 h-3.5 text-red-400" />,
+};
+
+// Per-file states of a batch run, with the error of failed files
+const FileStateList: React.FC<{ files: FileProgress[] }> = ({ files }) => (
+  <ul className="mt-4 max-h-48 overflow-y-auto divide-y divide-zinc-800 text-sm">
+    {files.map(f => (
+      <li key={f.id} className="flex items-center gap-2 py-1.5">
+        {FILE_STATE_ICONS[f.state]}
+        <span className="text-zinc-300 truncate">{f.fileName}</span>
+        {f.error && <span className="ml-auto text-xs text-red-400 truncate max-w-[60%]" title={f.error}>{f.error}</span>}
+      </li>
+    ))}
+  </ul>
+);
+
+const revokeResultUrls = (list: ProcessedImage[]) => list.forEach(r => {
+  URL.revokeObjectURL(r.originalUrl);
+  URL.revokeObjectURL(r.processedUrl);
+});
 
 const App: React.FC = () => {
-  const [files, setFiles] = useState<File[]>([]);
+  const [files, setFiles] = useState<QueuedFile[]>([]);
   const [results, setResults] = useState<ProcessedImage[]>([]);
-  const [status, setStatus] = useState<ProcessingStatus>({
-    isProcessing: false,
-    currentStep: 'Waiting for input',
-    progress: 0,
-    totalImages: 0,
-    completedImages: 0
-  });
+  const [status, setStatus] = useState<ProcessingStatus>(IDLE_STATUS);
+  const [params, setParams] = useState<AlgorithmParams>(DEFAULT_PARAMS);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [backdrop, setBackdrop] = useState<Backdrop>(DEFAULT_BACKDROP);
   const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [isEditingMask, setIsEditingMask] = useState(false);
+  const [isDebugging, setIsDebugging] = useState(false);
+  const [reprocessingIds, setReprocessingIds] = useState<Set<string>>(new Set());
+  // Why the last reprocess of a result failed, by result id; the card keeps its previous output
+  const [reprocessErrors, setReprocessErrors] = useState<Record<string, string>>({});
+  const [batchNormalization, setBatchNormalization] = useState<number | undefined>(undefined);
+  const [includeLayersInZip, setIncludeLayersInZip] = useState(false);
+  const [concurrency, setConcurrency] = useState(defaultConcurrency);
+  // Cancels the running batch
+  const batchAbort = useRef<AbortController | null>(null);
+  // Queued file or result whose parameter overrides are being edited
+  const [overridesOpenId, setOverridesOpenId] = useState<string | null>(null);
+  const [eyedropper, setEyedropper] = useState<EyedropperSettings>({ active: false, sampleSize: EYEDROPPER_SAMPLE_SIZES[1] });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Files that could not be queued, with the reason, until dismissed
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const [isAddingFiles, setIsAddingFiles] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  // Queue thumbnail URL per queued file id, created on first render and revoked once the file leaves the queue
+  const thumbnailUrls = useRef(new Map<string, string>());
+  // Latest reprocess request per result id, so out-of-order completions are dropped
+  const reprocessSeq = useRef<Record<string, number>>({});
+
+  // Session persistence (services/sessionStore.ts). Nothing is written until the stored session is restored.
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Last stored version of each result, so only changed results are written
+  const storedResults = useRef(new Map<string, ProcessedImage>());
+  // Why the current job could not be written to the history, until dismissed or saved on a retry
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveAttempt, setSaveAttempt] = useState(0);
+  // Job record whose write failed, written again on a retry
+  const unsavedJob = useRef<StoredJob | null>(null);
+
+  const reportSaveError = (what: string, error: unknown) => {
+    console.error(`Could not save ${what}`, error);
+    setSaveError(isQuotaError(error)
+      ? 'The browser storage for this site is full. Delete old batches from the history to make room, then retry.'
+      : errorMessage(error));
+  };
+
+  // Replaces the gallery with a stored job
+  const openJob = async (id: string) => {
+    const [job, stored] = await Promise.all([loadJob(id), loadJobResults(id)]);
+    const restored = stored.map(fromStored);
+    storedResults.current = new Map(restored.map(r => [r.id, r]));
+    setSaveError(null);
+    setResults(prev => {
+      revokeResultUrls(prev);
+      return restored;
+    });
+    setBatchNormalization(job?.normalization);
+    setJobId(id);
+    setLightboxIndex(null);
+  };
+
+  useEffect(() => {
+    const restore = async () => {
+      const [settings, queue] = await Promise.all([loadSettings(), loadQueue()]);
+      if (settings) {
+        setParams(sanitizeParams(settings.params));
+        setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...settings.exportSettings });
+        const image = settings.backdropImage && settings.backdrop.image
+          ? await loadBackdropImage(new File([settings.backdropImage], settings.backdrop.image.fileName, { type: settings.backdropImage.type }))
+              .catch(() => null)
+          : null;
+        setBackdrop({ ...DEFAULT_BACKDROP, ...settings.backdrop, image });
+        setIncludeLayersInZip(settings.includeLayersInZip);
+        if (settings.concurrency) setConcurrency(settings.concurrency);
+        if (settings.currentJobId) await openJob(settings.currentJobId);
+      }
+      // Queues stored before paths were kept have none
+      setFiles(queue.map(({ id, file, path, overrides }) => ({ id, file, path: path ?? file.name, overrides })));
+    };
+    restore()
+      .catch(error => console.error('Could not restore the previous session', error))
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(async () => {
+      try {
+        const backdropImage = backdrop.image ? await (await fetch(backdrop.image.url)).blob() : null;
+        await saveSettings({ params, exportSettings, backdrop, backdropImage, includeLayersInZip, concurrency, currentJobId: jobId });
+      } catch (error) {
+        console.error('Could not save settings', error);
+      }
+    }, SETTINGS_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [isRestored, params, exportSettings, backdrop, includeLayersInZip, concurrency, jobId]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveQueue(files.map((queued, position) => ({ ...queued, position })))
+      .catch(error => console.error('Could not save the queue', error));
+  }, [isRestored, files]);
+
+  // Full-resolution results are written whenever they change (reprocessed, refined, overridden)
+  useEffect(() => {
+    if (!isRestored || !jobId) return;
+    const changed = results.filter(r => r.previewScale === 1 && storedResults.current.get(r.id) !== r);
+    if (changed.length === 0) return;
+    changed.forEach(r => storedResults.current.set(r.id, r));
+    Promise.all(changed.map(async (r) => {
+      const output = await (await fetch(r.processedUrl)).blob();
+      await saveResult({
+        id: r.id,
+        jobId,
+        fileName: r.fileName,
+        source: r.sourceFile,
+        output,
+        format: r.format,
+        width: r.width,
+        height: r.height,
+        layout: r.layout,
+        background: r.background,
+        strokes: r.strokes,
+        redoStrokes: r.redoStrokes,
+        params: r.params,
+        overrides: r.overrides,
+        position: results.indexOf(r),
+        createdAt: r.createdAt,
+        updatedAt: Date.now()
+      });
+    }))
+      .then(() => {
+        setHistoryVersion(v => v + 1);
+        setSaveError(null);
+      })
+      .catch(error => {
+        // Forget the attempt so a retry writes these results again
+        changed.forEach(r => { if (storedResults.current.get(r.id) === r) storedResults.current.delete(r.id); });
+        reportSaveError('results', error);
+      });
+  }, [isRestored, jobId, results, saveAttempt]);
+
+  // Writes the failed job record, then (through the effect above) the results not stored yet
+  const retrySave = async () => {
+    setSaveError(null);
+    const job = unsavedJob.current;
+    if (job) {
+      try {
+        await saveJob(job);
+        unsavedJob.current = null;
+      } catch (error) {
+        reportSaveError('job', error);
+        return;
+      }
+    }
+    setSaveAttempt(n => n + 1);
+  };
+
+  // Clears the gallery and queue; processed jobs stay in the history
+  const startOver = () => {
+    revokeResultUrls(results);
+    storedResults.current.clear();
+    setResults([]);
+    setFiles([]);
+    setRejected([]);
+    setSaveError(null);
+    setReprocessErrors({});
+    unsavedJob.current = null;
+    setJobId(null);
+    setBatchNormalization(undefined);
+    setStatus(IDLE_STATUS);
+    setLightboxIndex(null);
+  };
+
+  const deleteHistoryJob = async (id: string) => {
+    if (!confirm('Delete this batch from the history?')) return;
+    try {
+      await deleteJob(id);
+      if (id === jobId) startOver();
+      setHistoryVersion(v => v + 1);
+    } catch (error) {
+      console.error('Could not delete job', error);
+      alert("Failed to delete from history.");
+    }
+  };
+
+  // Downloads a stored job as a ZIP without opening it
+  const downloadHistoryJob = async (id: string) => {
+    try {
+      const [job, stored] = await Promise.all([loadJob(id), loadJobResults(id)]);
+      const restored = stored.map(fromStored);
+      await downloadAllZip(restored, job?.normalization);
+      revokeResultUrls(restored);
+    } catch (error) {
+      console.error('Could not download job', error);
+      alert("Failed to download from history.");
+    }
+  };
+
+  // Queues picked, dropped or pasted files; the ones that cannot be processed are listed with a reason
+  const addFiles = async (incoming: InputFile[]) => {
+    if (incoming.length === 0) return;
+    setIsAddingFiles(true);
+    try {
+      const { accepted, rejected } = await prepareInputFiles(incoming);
+      setFiles(prev => [...prev, ...accepted.map(({ file, path }) => ({ id: newId(), file, path, overrides: {} }))]);
+      if (rejected.length > 0) setRejected(prev => [...prev, ...rejected]);
+    } finally {
+      setIsAddingFiles(false);
+    }
+  };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFiles = Array.from(event.target.files || []) as File[];
-    const validFiles = selectedFiles.filter(f => 
-      ['image/jpeg', 'image/png', 'image/jpg'].includes(f.type)
-    );
+    addFiles(inputFilesOf(Array.from(event.target.files || []) as File[]));
+    // Picking the same files again must fire another change
+    event.target.value = '';
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
 
-    if (validFiles.length + files.length > MAX_FILES) {
-      alert(`Maximum ${MAX_FILES} images allowed.`);
-      return;
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Leaving for a child element of the dropzone is not leaving the dropzone
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    setIsAddingFiles(true);
+    try {
+      await addFiles(await readDroppedFiles(event.dataTransfer));
+    } catch (error) {
+      console.error('Could not read dropped files', error);
+      setRejected(prev => [...prev, { name: 'Dropped items', reason: errorMessage(error) }]);
+    } finally {
+      setIsAddingFiles(false);
     }
+  };
 
-    setFiles(prev => [...prev, ...validFiles]);
+  const thumbnailUrl = ({ id, file }: QueuedFile) => {
+    let url = thumbnailUrls.current.get(id);
+    if (!url) {
+      url = URL.createObjectURL(file);
+      thumbnailUrls.current.set(id, url);
+    }
+    return url;
   };
 
+  useEffect(() => {
+    const queued = new Set(files.map(({ id }) => id));
+    thumbnailUrls.current.forEach((url, id) => {
+      if (queued.has(id)) return;
+      URL.revokeObjectURL(url);
+      thumbnailUrls.current.delete(id);
+    });
+  }, [files]);
+
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Processes the queue, at most `concurrency` images at a time. Each image renders a fast preview first
+  // so the gallery fills in quickly, then its full-resolution render replaces it. Failed and cancelled
+  // files stay in the queue; with results already in the gallery (retry, resuming a cancelled run)
+  // new results join the open job and reuse its batch normalization.
   const processImages = async () => {
-    if (files.length === 0) return;
+    if (files.length === 0 || status.isProcessing) return;
+
+    const queue = files;
+    const resuming = jobId !== null && results.length > 0;
+    const controller = new AbortController();
+    batchAbort.current = controller;
+    const { signal } = controller;
 
     setStatus({
       isProcessing: true,
-      currentStep: 'Initializing...',
+      isCancelling: false,
+      currentStep: `Processing ${queue.length} images...`,
       progress: 0,
-      totalImages: files.length,
-      completedImages: 0
+      totalImages: queue.length,
+      completedImages: 0,
+      failedImages: 0,
+      files: queue.map(({ id, path }) => ({ id, fileName: path, state: 'queued' }))
     });
 
-    const newResults: ProcessedImage[] = [];
+    const updateFile = (id: string, update: Partial<FileProgress>) => setStatus(prev => {
+      const fileStates = prev.files.map(f => f.id === id ? { ...f, ...update } : f);
+      const completedImages = fileStates.filter(f => f.state === 'done').length;
+      const failedImages = fileStates.filter(f => f.state === 'failed').length;
+      return {
+        ...prev,
+        currentStep: update.state === 'done' ? `Processed ${fileStates.find(f => f.id === id)?.fileName}` : prev.currentStep,
+        files: fileStates,
+        completedImages,
+        failedImages,
+        progress: ((completedImages + failedImages) / fileStates.length) * 100
+      };
+    });
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    const finish = () => {
+      batchAbort.current = null;
       setStatus(prev => ({
         ...prev,
-        currentStep: `Processing ${file.name}...`,
-        progress: (i / files.length) * 100
+        isProcessing: false,
+        isCancelling: false,
+        currentStep: signal.aborted
+          ? 'Cancelled'
+          : prev.failedImages > 0 ? `Done, ${prev.failedImages} failed` : 'Done!'
       }));
+    };
+
+    // Each file renders with the batch settings plus its own overrides
+    let jobs = queue.map(queued => ({ ...queued, params: resolveParams(params, queued.overrides) }));
+
+    // Batch tolerance: measure every image first so they all share one normalization
+    let normalization = resuming ? batchNormalization : undefined;
+    const batchJobs = jobs.filter(job => job.params.toleranceMode === 'batch');
+    if (batchJobs.length > 0 && normalization === undefined) {
+      setStatus(prev => ({ ...prev, currentStep: `Measuring ${batchJobs.length} images...` }));
+      const measured: number[] = [];
+      let measureError: unknown = null;
+      await runQueue(batchJobs, concurrency, async ({ file, params }) => {
+        try {
+          measured.push(await measureImage(file, params, signal));
+        } catch (error) {
+          if (isAbortError(error)) return;
+          console.error(`Error measuring ${file.name}`, error);
+          measureError = error;
+        }
+      }, signal);
+      if (signal.aborted) {
+        finish();
+        return;
+      }
+      if (measured.length === 0) {
+        // Without a shared normalization every pixel off the key would come out opaque: fail these files
+        const error = `Could not measure the batch tolerance: ${errorMessage(measureError)}`;
+        batchJobs.forEach(job => updateFile(job.id, { state: 'failed', error }));
+        jobs = jobs.filter(job => job.params.toleranceMode !== 'batch');
+        if (jobs.length === 0) {
+          finish();
+          return;
+        }
+      }
+      normalization = measured.length > 0 ? Math.max(...measured) : undefined;
+      setBatchNormalization(normalization);
+      setStatus(prev => ({ ...prev, currentStep: `Processing ${queue.length} images...` }));
+    }
+
+    // Every fresh run is a new job in the history
+    if (!resuming) {
+      const job = { id: newId(), createdAt: Date.now(), normalization };
+      saveJob(job).then(requestPersistence).catch(error => {
+        unsavedJob.current = job;
+        reportSaveError('job', error);
+      });
+      storedResults.current.clear();
+      setJobId(job.id);
+    }
 
+    // Results keep the queue order regardless of completion order, after any results already shown
+    const rank = new Map(queue.map((queued, i) => [queued.id, i]));
+    const rankOf = (result: ProcessedImage) => rank.get(result.id) ?? -1;
+    const insertResult = (result: ProcessedImage) => setResults(prev => {
+      const at = prev.findIndex(r => rankOf(r) > rankOf(result));
+      return at < 0 ? [...prev, result] : [...prev.slice(0, at), result, ...prev.slice(at)];
+    });
+    const removeResult = (result: ProcessedImage) => {
+      setResults(prev => prev.filter(r => r.id !== result.id));
+      revokeResultUrls([result]);
+    };
+
+    const done = new Set<string>();
+    await runQueue(jobs, concurrency, async ({ id, file, path, params, overrides }) => {
+      updateFile(id, { state: 'processing' });
+      let preview: ProcessedImage | null = null;
       try {
-        // Small delay to allow UI to render status update
-        await new Promise(r => setTimeout(r, 100));
-        
-        const result = await processImage(file, DEFAULT_PARAMS);
-        newResults.push({
-          id: Math.random().toString(36).substr(2, 9),
-          fileName: file.name,
+        const result = await processImage(file, params, { normalization, output: exportSettings, previewMaxEdge: PREVIEW_MAX_EDGE, signal });
+        preview = {
+          id,
+          fileName: path,
+          sourceFile: file,
+          strokes: [],
+          redoStrokes: [],
+          params,
+          overrides,
+          createdAt: Date.now(),
           ...result
-        });
+        };
+        insertResult(preview);
 
-        setStatus(prev => ({
-          ...prev,
-          completedImages: prev.completedImages + 1,
-          progress: ((i + 1) / files.length) * 100
-        }));
+        // Images no larger than a preview are already final
+        if (result.previewScale < 1) {
+          const full = await processImage(file, params, { normalization, output: exportSettings, signal });
+          URL.revokeObjectURL(full.originalUrl); // Keep the preview's original URL
+          setResults(prev => prev.map(r => r.id === id
+            ? { ...r, processedUrl: full.processedUrl, format: full.format, width: full.width, height: full.height, layout: full.layout, background: full.background, previewScale: full.previewScale }
+            : r));
+          // The preview output is no longer shown anywhere
+          URL.revokeObjectURL(preview.processedUrl);
+        }
+        done.add(id);
+        updateFile(id, { state: 'done' });
       } catch (error) {
-        console.error(`Error processing ${file.name}`, error);
+        if (preview) removeResult(preview);
+        if (isAbortError(error)) {
+          updateFile(id, { state: 'queued' });
+          return;
+        }
+        console.error(`Error processing ${path}`, error);
+        updateFile(id, { state: 'failed', error: errorMessage(error) });
+      }
+    }, signal);
+
+    setFiles(prev => prev.filter(queued => !done.has(queued.id)));
+    finish();
+  };
+
+  const cancelProcessing = () => {
+    batchAbort.current?.abort();
+    setStatus(prev => ({ ...prev, isCancelling: true, currentStep: 'Cancelling...' }));
+  };
+
+  // Drops the files left over from the last run (failed or never started) and hides the summary
+  const dismissUnfinished = () => {
+    const unfinished = new Set(status.files.filter(f => f.state !== 'done').map(f => f.id));
+    setFiles(prev => prev.filter(queued => !unfinished.has(queued.id)));
+    setStatus(prev => ({ ...prev, files: [] }));
+  };
+
+  const dismissReprocessError = (id: string) => setReprocessErrors(prev => {
+    if (!(id in prev)) return prev;
+    const { [id]: _, ...rest } = prev;
+    return rest;
+  });
+
+  // Re-runs the pipeline at full resolution for one result with the given settings (by default the batch
+  // settings plus the result's overrides) and its refinement strokes
+  const reprocessResult = async (
+    result: ProcessedImage,
+    renderParams: AlgorithmParams = resolveParams(params, result.overrides),
+    normalization: number | undefined = batchNormalization
+  ) => {
+    const seq = (reprocessSeq.current[result.id] ?? 0) + 1;
+    reprocessSeq.current[result.id] = seq;
+    setReprocessingIds(prev => new Set(prev).add(result.id));
+    dismissReprocessError(result.id);
+
+    try {
+      const processed = await processImage(result.sourceFile, renderParams, {
+        normalization,
+        strokes: result.strokes,
+        output: exportSettings
+      });
+      URL.revokeObjectURL(processed.originalUrl); // Keep the existing original URL
+      if (reprocessSeq.current[result.id] !== seq) {
+        URL.revokeObjectURL(processed.processedUrl);
+        return;
+      }
+      setResults(prev => prev.map(r => r.id === result.id
+        ? { ...r, params: renderParams, processedUrl: processed.processedUrl, format: processed.format, width: processed.width, height: processed.height, layout: processed.layout, background: processed.background, previewScale: processed.previewScale }
+        : r
+      ));
+    } catch (error) {
+      console.error(`Error reprocessing ${result.fileName}`, error);
+      if (reprocessSeq.current[result.id] === seq) {
+        setReprocessErrors(prev => ({ ...prev, [result.id]: errorMessage(error) }));
+      }
+    } finally {
+      if (reprocessSeq.current[result.id] === seq) {
+        setReprocessingIds(prev => {
+          const next = new Set(prev);
+          next.delete(result.id);
+          return next;
+        });
       }
     }
+  };
 
-    setStatus(prev => ({ ...prev, isProcessing: false, currentStep: 'Done!', progress: 100 }));
-    setResults(newResults);
-    setFiles([]); // Clear queue
+  const updateStrokes = (result: ProcessedImage, strokes: MaskStroke[], redoStrokes: MaskStroke[]) => {
+    const updated = { ...result, strokes, redoStrokes };
+    setResults(prev => prev.map(r => r.id === result.id ? updated : r));
+    reprocessResult(updated, result.params);
+  };
+
+  // Overrides are applied by "Reprocess", not on every edit
+  const updateOverrides = (result: ProcessedImage, overrides: ParamOverrides) => {
+    setResults(prev => prev.map(r => r.id === result.id ? { ...r, overrides } : r));
+  };
+
+  // Gives every queued file and result the same overrides as `source`, and reprocesses the results
+  const copyOverridesToAll = (source: ProcessedImage) => {
+    const { overrides } = source;
+    setFiles(prev => prev.map(queued => ({ ...queued, overrides })));
+    setResults(prev => prev.map(r => ({ ...r, overrides })));
+    results.forEach(r => {
+      if (r.id !== source.id) reprocessResult({ ...r, overrides });
+    });
+  };
+
+  // Layers are rendered on demand with the settings and strokes of the displayed result
+  const renderLayers = (result: ProcessedImage, normalization: number | undefined = batchNormalization) =>
+    exportLayers(result.sourceFile, result.params, { normalization, strokes: result.strokes, output: exportSettings });
+
+  // Eyedropper pick: replaces the manual key, or adds a key sample on Shift+click.
+  // Picking always switches to the manual key.
+  const handleKeySample = (color: [number, number, number], additive: boolean) => {
+    setParams(prev => additive && !prev.autoDetectBg
+      ? { ...prev, extraKeyColors: [...prev.extraKeyColors, color] }
+      : { ...prev, autoDetectBg: false, manualBgColor: color, extraKeyColors: [] }
+    );
   };
 
   const copyToClipboard = async (imageUrl: string) => {
     try {
       const response = await fetch(imageUrl);
-      const blob = await response.blob();
+      let blob = await response.blob();
+      // The clipboard only reliably accepts PNG
+      if (blob.type !== 'image/png') {
+        const bitmap = await createImageBitmap(blob);
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        bitmap.close();
+        blob = await new Promise<Blob>((resolve, reject) =>
+          canvas.toBlob(b => b ? resolve(b) : reject(new Error('PNG conversion failed')), 'image/png'));
+      }
       await navigator.clipboard.write([
         new ClipboardItem({
           [blob.type]: blob
@@ -99,27 +673,100 @@ const App: React.FC = () => {
     }
   };
 
-  const downloadImage = (url: string, filename: string) => {
+  const downloadImage = (url: string, filename: string, format: OutputFormat) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${withoutFolders(outputBaseName(filename))}.${OUTPUT_FORMATS[format].extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `processed_${filename.replace(/\.[^/.]+$/, "")}.png`;
+    link.download = withoutFolders(filename);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Which files a download produces for the current backdrop
+  const wantsTransparent = backdrop.type === 'none' || backdrop.exportMode !== 'composite';
+  const wantsComposite = backdrop.type !== 'none' && backdrop.exportMode !== 'transparent';
+  const compositeFileName = (baseName: string) =>
+    `${baseName}_composite.${OUTPUT_FORMATS[exportSettings.format].extension}`;
+
+  const downloadResult = async (result: ProcessedImage) => {
+    if (wantsTransparent) downloadImage(result.processedUrl, result.fileName, result.format);
+    if (!wantsComposite) return;
+    try {
+      const blob = await renderComposite(result.processedUrl, backdrop, exportSettings);
+      downloadBlob(blob, compositeFileName(outputBaseName(result.fileName)));
+    } catch (error) {
+      console.error(`Error compositing ${result.fileName}`, error);
+      alert("Failed to export composite.");
+    }
   };
 
-  const downloadAllZip = async () => {
-    if (results.length === 0) return;
+  const downloadLayer = async (result: ProcessedImage, layer: LayerName) => {
+    try {
+      const layers = await renderLayers(result);
+      const { suffix } = LAYER_FILES.find(f => f.layer === layer)!;
+      const blob = layers[layer];
+      if (blob) downloadBlob(blob, outputBaseName(result.fileName) + suffix);
+    } catch (error) {
+      console.error(`Error exporting layers for ${result.fileName}`, error);
+      alert("Failed to export layers.");
+    }
+  };
+
+  const downloadAllZip = async (list: ProcessedImage[] = results, normalization: number | undefined = batchNormalization) => {
+    if (list.length === 0) return;
     
     const zip = new JSZip();
     
-    // Add images
-    await Promise.all(results.map(async (res) => {
-      const response = await fetch(res.processedUrl);
-      const blob = await response.blob();
-      const filename = `processed_${res.fileName.replace(/\.[^/.]+$/, "")}.png`;
-      zip.file(filename, blob);
-    }));
+    // Add images, recording which files each source produced. Results are rendered at most `concurrency`
+    // at a time and each one's files join the ZIP as soon as it finishes, so large batches never hold
+    // every composite and layer set at once.
+    // Same-named sources (shot.jpg and shot.tiff, or a name repeated across dropped folders) would
+    // overwrite each other's entries
+    const baseNames = uniqueNames(list.map(res => outputBaseName(res.fileName)));
+    const manifestFiles = new Array<BatchManifest['files'][number]>(list.length);
+    await runQueue(list, concurrency, async (res, index) => {
+      const baseName = baseNames[index];
+      const outputs: string[] = [];
+      const add = (filename: string, blob: Blob) => {
+        zip.file(filename, blob);
+        outputs.push(filename);
+      };
+
+      if (wantsTransparent) {
+        const response = await fetch(res.processedUrl);
+        const blob = await response.blob();
+        add(`${baseName}.${OUTPUT_FORMATS[res.format].extension}`, blob);
+      }
+
+      if (wantsComposite) {
+        add(compositeFileName(baseName), await renderComposite(res.processedUrl, backdrop, exportSettings));
+      }
+
+      if (includeLayersInZip) {
+        const layers = await renderLayers(res, normalization);
+        LAYER_FILES.forEach(({ layer, suffix }) => {
+          const blob = layers[layer];
+          if (blob) add(baseName + suffix, blob);
+        });
+      }
+
+      manifestFiles[index] = { source: res.fileName, outputs, params: res.params, overrides: res.overrides, strokes: res.strokes.length };
+    });
+
+    // Parameters each file was produced with
+    const manifest: BatchManifest = { version: MANIFEST_FILE_VERSION, preset: params, files: manifestFiles };
+    zip.file(MANIFEST_FILE_NAME, JSON.stringify(manifest, null, 2));
 
     // Generate zip
     const content = await zip.generateAsync({ type: "blob" });
@@ -139,7 +786,11 @@ const App: React.FC = () => {
   // Total slides = results.length * 2 (Original, Result, Original, Result...)
   // Even Index = Original
   // Odd Index = Result
-  const closeLightbox = () => setLightboxIndex(null);
+  const closeLightbox = () => {
+    setLightboxIndex(null);
+    setIsEditingMask(false);
+    setIsDebugging(false);
+  };
 
   const nextImage = useCallback((e?: React.MouseEvent) => {
     e?.stopPropagation();
@@ -159,16 +810,46 @@ const App: React.FC = () => {
     });
   }, [results.length]);
 
+  // Pasted images join the queue while the upload section is shown
+  const acceptsPaste = !status.isProcessing;
+  useEffect(() => {
+    if (!acceptsPaste) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      // Pasting text into a field stays a text paste
+      if (!e.clipboardData || e.clipboardData.files.length === 0) return;
+      e.preventDefault();
+      addFiles(inputFilesOf(filesFromClipboard(e.clipboardData)));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [acceptsPaste]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (lightboxIndex === null) return;
+      if (e.key === 'Escape' && (isEditingMask || isDebugging)) {
+        setIsEditingMask(false);
+        setIsDebugging(false);
+        return;
+      }
       if (e.key === 'Escape') closeLightbox();
       if (e.key === 'ArrowRight') nextImage();
       if (e.key === 'ArrowLeft') prevImage();
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [lightboxIndex, nextImage, prevImage]);
+  }, [lightboxIndex, isEditingMask, isDebugging, nextImage, prevImage]);
+
+  // Results can disappear while the lightbox is open (a failed full render drops its preview):
+  // stay on the same kind of slide of the last image, or close when none are left
+  useEffect(() => {
+    if (lightboxIndex === null || lightboxIndex < results.length * 2) return;
+    if (results.length === 0) {
+      closeLightbox();
+    } else {
+      setLightboxIndex((results.length - 1) * 2 + (lightboxIndex % 2));
+    }
+  }, [results.length, lightboxIndex]);
 
   // Helper to get current slide data
   const getCurrentSlide = () => {
@@ -176,7 +857,8 @@ const App: React.FC = () => {
     const imageIndex = Math.floor(lightboxIndex / 2);
     const isOriginal = lightboxIndex % 2 === 0;
     const data = results[imageIndex];
-    
+    if (!data) return null;
+
     return {
       data,
       url: isOriginal ? data.originalUrl : data.processedUrl,
@@ -187,6 +869,23 @@ const App: React.FC = () => {
 
   const slide = getCurrentSlide();
 
+  // Files of the last run still in the queue (failed or never started)
+  const unfinished = status.files.filter(f => f.state !== 'done' && files.some(queued => queued.id === f.id));
+  const failureOf = (id: string) => status.files.find(f => f.id === id && f.state === 'failed')?.error;
+
+  const concurrencyControl = (
+    <label className="flex items-center gap-2 text-xs text-zinc-400" title="Images processed at the same time. Lower it for very large images.">
+      Parallel
+      <select
+        value={concurrency}
+        onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+        className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white"
+      >
+        {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+      </select>
+    </label>
+  );
+
   return (
     <div className="min-h-screen bg-zinc-950 text-gray-200 font-sans selection:bg-teal-500/30">
       
@@ -199,7 +898,15 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold text-white tracking-tight">Shadow<span className="text-teal-400">Cast</span></h1>
           </div>
-          <div className="text-xs text-zinc-500">v1.0.0 &bull; Client-side Processing</div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowHistory(prev => !prev)}
+              className={`flex items-center gap-1.5 text-xs transition-colors ${showHistory ? 'text-teal-400' : 'text-zinc-400 hover:text-white'}`}
+            >
+              <History className="w-4 h-4" /> History
+            </button>
+            <div className="text-xs text-zinc-500">v1.0.0 &bull; Client-side Processing</div>
+          </div>
         </div>
       </header>
 
@@ -213,34 +920,121 @@ const App: React.FC = () => {
           </p>
         </div>
 
-        {/* Upload Section (Hidden when results exist, or minimal) */}
-        {!status.isProcessing && results.length === 0 && (
+        {saveError && (
+          <div className="max-w-2xl mx-auto bg-zinc-900 border border-red-900/60 rounded-xl p-4 flex items-start gap-3">
+            <TriangleAlert className="w-4 h-4 text-red-300 shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-red-300">Results of this batch are not saved to the history</p>
+              <p className="text-xs text-zinc-400 mt-1">{saveError}</p>
+            </div>
+            <div className="flex items-center gap-3 text-xs shrink-0">
+              {!showHistory && (
+                <button onClick={() => setShowHistory(true)} className="text-teal-400 hover:text-teal-300">
+                  Open history
+                </button>
+              )}
+              <button onClick={retrySave} className="text-teal-400 hover:text-teal-300">
+                Retry
+              </button>
+              <button onClick={() => setSaveError(null)} className="text-zinc-400 hover:text-white">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showHistory && !status.isProcessing && (
+          <HistoryPanel
+            currentJobId={jobId}
+            version={historyVersion}
+            onOpen={(id) => openJob(id).catch(error => {
+              console.error('Could not open job', error);
+              alert("Failed to open from history.");
+            })}
+            onDownload={downloadHistoryJob}
+            onDelete={deleteHistoryJob}
+          />
+        )}
+
+        {/* Settings & Live Preview */}
+        {!status.isProcessing && (
+          <ParameterPanel
+            params={params}
+            onChange={setParams}
+            previewFiles={[...files.map(queued => queued.file), ...results.map(r => r.sourceFile)]}
+            eyedropper={eyedropper}
+            onEyedropperChange={setEyedropper}
+          />
+        )}
+        {!status.isProcessing && (
+          <ExportSettingsPanel settings={exportSettings} onChange={setExportSettings} />
+        )}
+        {!status.isProcessing && (
+          <BackdropPanel backdrop={backdrop} onChange={setBackdrop} />
+        )}
+
+        {/* Upload Section (compact once results exist; new files are added to the current job) */}
+        {!status.isProcessing && (
           <div className="max-w-2xl mx-auto">
             <div 
               onClick={() => fileInputRef.current?.click()}
-              className="group relative border-2 border-dashed border-zinc-700 hover:border-teal-500 hover:bg-zinc-900/50 rounded-2xl p-12 transition-all cursor-pointer text-center"
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              className={`group relative border-2 border-dashed rounded-2xl ${results.length > 0 ? 'p-6' : 'p-12'} transition-all cursor-pointer text-center ${isDragging ? 'border-teal-500 bg-teal-900/10' : 'border-zinc-700 hover:border-teal-500 hover:bg-zinc-900/50'}`}
             >
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
                 multiple 
-                accept=".jpg,.jpeg,.png" 
+                accept={INPUT_ACCEPT}
+                onChange={handleFileChange}
+              />
+              {/* webkitdirectory is not in React's attribute types; spread it so it reaches the DOM */}
+              <input
+                type="file"
+                ref={folderInputRef}
+                className="hidden"
+                multiple
+                {...{ webkitdirectory: '' }}
                 onChange={handleFileChange}
               />
               
               <div className="w-16 h-16 bg-zinc-800 group-hover:bg-teal-900/30 rounded-full flex items-center justify-center mx-auto mb-4 transition-colors">
-                <Upload className="w-8 h-8 text-zinc-400 group-hover:text-teal-400" />
+                {isAddingFiles
+                  ? <Loader2 className="w-8 h-8 text-teal-400 animate-spin" />
+                  : <Upload className={`w-8 h-8 group-hover:text-teal-400 ${isDragging ? 'text-teal-400' : 'text-zinc-400'}`} />}
               </div>
-              <h3 className="text-lg font-medium text-white mb-2">Drop images here or click to upload</h3>
-              <p className="text-zinc-500 text-sm">Supports JPG, PNG (Max 10 files)</p>
+              <h3 className="text-lg font-medium text-white mb-2">Drop images or folders here, paste, or click to upload</h3>
+              <p className="text-zinc-500 text-sm">
+                Supports {INPUT_FORMATS.map(format => format.label).join(', ')} &bull;{' '}
+                <button
+                  onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+                  className="inline-flex items-center gap-1 text-teal-400 hover:text-teal-300"
+                >
+                  <FolderOpen className="w-3 h-3" /> choose a folder
+                </button>
+              </p>
 
               {/* File List Preview inside Dropzone */}
               {files.length > 0 && (
                 <div className="mt-8 grid grid-cols-5 gap-2">
-                  {files.map((f, i) => (
-                    <div key={i} className="relative aspect-square bg-zinc-800 rounded-lg overflow-hidden border border-zinc-700 group/file">
-                      <img src={URL.createObjectURL(f)} alt="prev" className="w-full h-full object-cover opacity-70" />
+                  {files.map((queued, i) => (
+                    <div
+                      key={queued.id}
+                      title={failureOf(queued.id) && `Failed: ${failureOf(queued.id)}`}
+                      className={`relative aspect-square bg-zinc-800 rounded-lg overflow-hidden border group/file ${overridesOpenId === queued.id ? 'border-teal-500' : failureOf(queued.id) ? 'border-red-500' : 'border-zinc-700'}`}
+                    >
+                      <img src={thumbnailUrl(queued)} alt="prev" className="w-full h-full object-cover opacity-70" />
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setOverridesOpenId(prev => prev === queued.id ? null : queued.id); }}
+                        title="Per-image settings"
+                        className={`absolute top-1 left-1 flex items-center gap-0.5 bg-black/50 hover:bg-teal-500/80 p-1 rounded-full text-white transition-all ${Object.keys(queued.overrides).length > 0 ? '' : 'opacity-0 group-hover/file:opacity-100'}`}
+                      >
+                        <SlidersHorizontal className="w-3 h-3" />
+                        {Object.keys(queued.overrides).length > 0 && <span className="text-[10px] px-0.5">{Object.keys(queued.overrides).length}</span>}
+                      </button>
                       <button 
                         onClick={(e) => { e.stopPropagation(); removeFile(i); }}
                         className="absolute top-1 right-1 bg-black/50 hover:bg-red-500/80 p-1 rounded-full text-white opacity-0 group-hover/file:opacity-100 transition-all"
@@ -253,14 +1047,51 @@ const App: React.FC = () => {
               )}
             </div>
 
+            {rejected.length > 0 && (
+              <div className="mt-4 bg-zinc-900 border border-red-900/60 rounded-xl p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2 text-sm text-red-300">
+                    <TriangleAlert className="w-4 h-4" />
+                    {rejected.length} {rejected.length === 1 ? 'file was' : 'files were'} not added
+                  </div>
+                  <button onClick={() => setRejected([])} className="text-xs text-zinc-400 hover:text-white">
+                    Dismiss
+                  </button>
+                </div>
+                <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+                  {rejected.map((file, i) => (
+                    <li key={i} className="flex justify-between gap-4">
+                      <span className="text-zinc-300 truncate" title={file.name}>{file.name}</span>
+                      <span className="text-zinc-500 shrink-0">{file.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {files.filter(queued => queued.id === overridesOpenId).map(queued => (
+              <div key={queued.id} className="mt-4 bg-zinc-900 border border-zinc-800 rounded-xl p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm text-white">
+                  <SlidersHorizontal className="w-4 h-4 text-teal-400" />
+                  <span className="truncate">Settings for {queued.path}</span>
+                </div>
+                <OverridesEditor
+                  preset={params}
+                  overrides={queued.overrides}
+                  onChange={(overrides) => setFiles(prev => prev.map(q => q.id === queued.id ? { ...q, overrides } : q))}
+                />
+              </div>
+            ))}
+
             {files.length > 0 && (
-              <div className="mt-6 flex justify-center">
+              <div className="mt-6 flex items-center justify-center gap-6">
                 <button 
                   onClick={processImages}
                   className="bg-teal-500 hover:bg-teal-400 text-zinc-900 font-bold py-3 px-8 rounded-full shadow-lg shadow-teal-900/20 transition-all hover:scale-105 active:scale-95"
                 >
                   Process {files.length} Images
                 </button>
+                {concurrencyControl}
               </div>
             )}
           </div>
@@ -282,10 +1113,51 @@ const App: React.FC = () => {
                   style={{ width: `${status.progress}%` }}
                />
              </div>
-             <div className="mt-4 flex items-center gap-2 text-xs text-zinc-500 uppercase tracking-wider justify-center">
-                <Loader2 className="w-3 h-3 animate-spin" />
-                Applying Alpha Matting & Shaving Logic
+             <div className="mt-4 flex items-center justify-between">
+                <div className="flex items-center gap-2 text-xs text-zinc-500 uppercase tracking-wider">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Applying Alpha Matting & Shaving Logic
+                </div>
+                <button
+                  onClick={cancelProcessing}
+                  disabled={status.isCancelling}
+                  className="flex items-center gap-2 bg-zinc-800 hover:bg-red-500/20 text-zinc-300 hover:text-red-300 px-4 py-1.5 rounded-full text-sm border border-zinc-700 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  <Ban className="w-4 h-4" /> {status.isCancelling ? 'Cancelling...' : 'Cancel'}
+                </button>
              </div>
+             <FileStateList files={status.files} />
+          </div>
+        )}
+
+        {/* Summary of the last run's failed and unprocessed files */}
+        {!status.isProcessing && unfinished.length > 0 && (
+          <div className="max-w-2xl mx-auto bg-zinc-900 border border-red-900/50 rounded-2xl p-6 shadow-2xl space-y-4">
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <h3 className="flex items-center gap-2 text-white font-medium">
+                  <TriangleAlert className="w-4 h-4 text-red-400" />
+                  {status.failedImages > 0
+                    ? `${status.failedImages} of ${status.totalImages} images failed`
+                    : `Cancelled with ${unfinished.length} images left`}
+                </h3>
+                <p className="text-zinc-400 text-sm mt-1">
+                  {status.completedImages} processed &bull; {status.failedImages} failed &bull; {unfinished.length - status.failedImages} not started
+                </p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <button
+                  onClick={processImages}
+                  className="flex items-center gap-2 bg-teal-500 hover:bg-teal-400 text-zinc-900 px-4 py-2 rounded-full font-bold text-sm transition-colors"
+                >
+                  <RefreshCw className="w-4 h-4" /> {status.failedImages === unfinished.length ? 'Retry failed' : `Process remaining ${unfinished.length}`}
+                </button>
+                <button onClick={dismissUnfinished} className="text-zinc-400 hover:text-white text-sm">
+                  Dismiss
+                </button>
+              </div>
+            </div>
+            <FileStateList files={unfinished} />
           </div>
         )}
 
@@ -296,13 +1168,29 @@ const App: React.FC = () => {
                <h3 className="text-2xl font-bold text-white">Results</h3>
                <div className="flex items-center gap-3">
                   <button 
-                    onClick={downloadAllZip}
+                    onClick={() => results.forEach(r => reprocessResult(r))}
+                    title="Reprocess all results with the current settings (per-image overrides and manual refinements are kept)"
                     className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-white px-5 py-2.5 rounded-full font-medium border border-zinc-700 transition-all hover:border-zinc-600 text-sm"
                   >
-                    <Download className="w-4 h-4" /> Download All PNG
+                    <RefreshCw className="w-4 h-4" /> Apply Settings
                   </button>
+                  <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer" title="Add object, shadow and matte PNGs and a layered PSD per image">
+                    <input
+                      type="checkbox"
+                      checked={includeLayersInZip}
+                      onChange={(e) => setIncludeLayersInZip(e.target.checked)}
+                      className="accent-teal-500"
+                    />
+                    Include layers
+                  </label>
                   <button 
-                    onClick={() => window.location.reload()} 
+                    onClick={() => downloadAllZip()}
+                    className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 text-white px-5 py-2.5 rounded-full font-medium border border-zinc-700 transition-all hover:border-zinc-600 text-sm"
+                  >
+                    <Download className="w-4 h-4" /> Download All
+                  </button>
+                  <button 
+                    onClick={startOver}
                     className="flex items-center gap-2 bg-teal-500 hover:bg-teal-400 text-zinc-900 px-5 py-2.5 rounded-full font-bold shadow-lg shadow-teal-900/20 transition-all hover:scale-105 active:scale-95 text-sm"
                   >
                     <RotateCcw className="w-4 h-4" /> Start Over
@@ -317,7 +1205,19 @@ const App: React.FC = () => {
                   {/* Header */}
                   <div className="p-4 border-b border-zinc-800 flex justify-between items-center bg-zinc-850">
                     <span className="text-sm font-medium text-zinc-300 truncate max-w-[200px]">{res.fileName}</span>
-                    <span className="text-xs text-zinc-500 font-mono">{res.width}x{res.height}</span>
+                    <div className="flex items-center gap-3">
+                      <span
+                        title={`Background key: rgb(${res.background.color.join(', ')})${res.background.type !== 'constant' ? ` (${res.background.type} gradient)` : ''}`}
+                        className="flex items-center gap-1.5 text-[10px] text-zinc-500 uppercase tracking-wide"
+                      >
+                        <span
+                          className="w-3 h-3 rounded-sm border border-zinc-600"
+                          style={{ backgroundColor: `rgb(${res.background.color.join(',')})` }}
+                        />
+                        {res.background.type !== 'constant' && res.background.type}
+                      </span>
+                      <span className="text-xs text-zinc-500 font-mono">{res.width}x{res.height}</span>
+                    </div>
                   </div>
 
                   {/* Split View */}
@@ -325,28 +1225,49 @@ const App: React.FC = () => {
                     {/* Original - Click to open Lightbox (Original View) */}
                     <div 
                       onClick={() => setLightboxIndex(idx * 2)} // Even index = Original
-                      className="relative group overflow-hidden bg-[url('https://bg.siteorigin.com/blog/wp-content/uploads/2015/06/p6.png')] cursor-zoom-in"
+                      className="relative group overflow-hidden cursor-zoom-in"
+                      style={CHECKERBOARD_STYLE}
                     >
                       <div className="absolute inset-0 bg-zinc-900/80"></div> {/* Dim checkerboard */}
-                      <img src={res.originalUrl} alt="Original" className="absolute inset-0 w-full h-full object-contain p-4" />
+                      <EyedropperImage
+                        src={res.originalUrl}
+                        alt="Original"
+                        className="absolute inset-0 w-full h-full object-contain p-4"
+                        active={eyedropper.active}
+                        sampleSize={eyedropper.sampleSize}
+                        onSample={handleKeySample}
+                      />
                       <div className="absolute top-2 left-2 bg-black/60 text-white text-[10px] px-2 py-0.5 rounded uppercase tracking-wide">Original</div>
                     </div>
 
                     {/* Processed - Click to open Lightbox (Result View) */}
                     <div 
                       onClick={() => setLightboxIndex(idx * 2 + 1)} // Odd index = Result
-                      className="relative group overflow-hidden bg-[url('https://bg.siteorigin.com/blog/wp-content/uploads/2015/06/p6.png')] cursor-zoom-in"
+                      className="relative group overflow-hidden bg-zinc-950 cursor-zoom-in"
                     >
-                       {/* Teal accent background for transparency visualization */}
-                      <div className="absolute inset-0 bg-teal-500/50"></div>
-                      <img src={res.processedUrl} alt="Processed" className="absolute inset-0 w-full h-full object-contain p-4" />
+                      {/* Previewed on the chosen backdrop, or a checkerboard */}
+                      <div className="absolute inset-0 p-4 flex items-center justify-center">
+                        <CompositeView
+                          src={res.processedUrl}
+                          alt="Processed"
+                          width={res.width}
+                          height={res.height}
+                          backdrop={backdrop}
+                          className="max-w-full max-h-full w-auto h-auto"
+                        />
+                      </div>
                       <div className="absolute top-2 right-2 bg-teal-900/80 text-teal-100 text-[10px] px-2 py-0.5 rounded uppercase tracking-wide border border-teal-700">Result</div>
+                      {res.previewScale < 1 && (
+                        <div className="absolute bottom-2 right-2 flex items-center gap-1 bg-black/60 text-zinc-300 text-[10px] px-2 py-0.5 rounded uppercase tracking-wide">
+                          <Loader2 className="w-3 h-3 animate-spin" /> Preview
+                        </div>
+                      )}
                       
-                      {/* Hover Actions */}
-                      <div className="absolute inset-0 bg-zinc-900/90 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center gap-3 backdrop-blur-sm">
+                      {/* Hover Actions (once the full-resolution result is in) */}
+                      <div className={`absolute inset-0 bg-zinc-900/90 opacity-0 group-hover:opacity-100 transition-opacity flex-col items-center justify-center gap-3 backdrop-blur-sm ${res.previewScale < 1 ? 'hidden' : 'flex'}`}>
                          <div className="flex gap-2">
                             <button 
-                              onClick={(e) => { e.stopPropagation(); downloadImage(res.processedUrl, res.fileName); }}
+                              onClick={(e) => { e.stopPropagation(); downloadResult(res); }}
                               className="flex items-center gap-2 bg-white text-zinc-900 px-4 py-2 rounded-full font-bold hover:bg-teal-400 transition-colors text-sm"
                             >
                               <Download className="w-4 h-4" /> Save
@@ -364,9 +1285,70 @@ const App: React.FC = () => {
                          >
                            <Copy className="w-3 h-3" /> Copy to Clipboard
                          </button>
+                         <div className="flex items-center gap-2 text-xs text-zinc-400">
+                           <Layers className="w-3 h-3" />
+                           {layerFilesFor(res).map(({ layer, label }) => (
+                             <button
+                               key={layer}
+                               onClick={(e) => { e.stopPropagation(); downloadLayer(res, layer); }}
+                               className="hover:text-white"
+                             >
+                               {label}
+                             </button>
+                           ))}
+                         </div>
                       </div>
                     </div>
                   </div>
+
+                  {/* Per-image settings */}
+                  <div className="border-t border-zinc-800 px-4 py-2 space-y-3">
+                    <div className="flex items-center justify-between text-xs">
+                      <button
+                        onClick={() => setOverridesOpenId(prev => prev === res.id ? null : res.id)}
+                        className={`flex items-center gap-2 transition-colors ${overridesOpenId === res.id ? 'text-white' : 'text-zinc-400 hover:text-white'}`}
+                      >
+                        <SlidersHorizontal className="w-3 h-3" /> Overrides
+                        {activeOverrides(params, res.overrides).length > 0 && (
+                          <span className="bg-teal-900 text-teal-400 px-1.5 rounded font-mono">{activeOverrides(params, res.overrides).length}</span>
+                        )}
+                        {!paramsEqual(res.params, resolveParams(params, res.overrides)) && (
+                          <span className="text-amber-400">&bull; not applied</span>
+                        )}
+                      </button>
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => reprocessResult(res)}
+                          disabled={reprocessingIds.has(res.id)}
+                          title="Reprocess this image with the batch settings and its overrides"
+                          className="flex items-center gap-1 text-zinc-400 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                        >
+                          <RefreshCw className={`w-3 h-3 ${reprocessingIds.has(res.id) ? 'animate-spin' : ''}`} /> Reprocess
+                        </button>
+                        <button
+                          onClick={() => copyOverridesToAll(res)}
+                          title="Give every image these overrides and reprocess them"
+                          className="flex items-center gap-1 text-zinc-400 hover:text-white"
+                        >
+                          <CopyPlus className="w-3 h-3" /> Copy to all
+                        </button>
+                      </div>
+                    </div>
+                    {reprocessErrors[res.id] && (
+                      <div className="flex items-start gap-2 text-xs">
+                        <TriangleAlert className="w-3 h-3 text-red-300 shrink-0 mt-0.5" />
+                        <span className="flex-1 min-w-0 text-red-300">
+                          Reprocessing failed; this is the previous result. <span className="text-zinc-400">{reprocessErrors[res.id]}</span>
+                        </span>
+                        <button onClick={() => dismissReprocessError(res.id)} className="text-zinc-400 hover:text-white">
+                          Dismiss
+                        </button>
+                      </div>
+                    )}
+                    {overridesOpenId === res.id && (
+                      <OverridesEditor preset={params} overrides={res.overrides} onChange={(overrides) => updateOverrides(res, overrides)} />
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -388,7 +1370,14 @@ const App: React.FC = () => {
                       {slide.type}
                     </span>
                  </div>
-                 <p className="text-zinc-400 text-sm">{slide.data.width} x {slide.data.height} px</p>
+                 <p className="text-zinc-400 text-sm">
+                   {slide.data.width} x {slide.data.height} px
+                   {slide.type === 'Result' && slide.data.layout && (
+                     <span className="text-zinc-500">
+                       {' '}&bull; cropped from {slide.data.layout.cropBox.width} x {slide.data.layout.cropBox.height} at ({slide.data.layout.cropBox.x}, {slide.data.layout.cropBox.y})
+                     </span>
+                   )}
+                 </p>
               </div>
               <button 
                 onClick={closeLightbox}
@@ -404,20 +1393,37 @@ const App: React.FC = () => {
               onClick={(e) => e.stopPropagation()} // Prevent click on image closing modal
             >
                <div className="relative max-w-full max-h-full flex flex-col items-center">
-                 {/* Dynamic Background for the image container */}
-                 {/* Result: Teal background. Original: Neutral dark. */}
-                 <div className={`relative rounded-lg overflow-hidden shadow-2xl ${slide.type === 'Result' ? 'bg-teal-600' : 'bg-zinc-900'}`}>
-                   {/* Add checkerboard only if transparent result (though now solid teal per request) or original if needed */}
-                    {slide.type === 'Result' && (
-                       <div className="absolute inset-0 bg-[url('https://bg.siteorigin.com/blog/wp-content/uploads/2015/06/p6.png')] opacity-10 mix-blend-overlay"></div>
-                    )}
-                   
-                   <img 
-                      src={slide.url} 
-                      alt={slide.type} 
-                      className="relative max-w-full max-h-[80vh] object-contain"
+                 {slide.type === 'Result' && isEditingMask ? (
+                   <MaskEditor
+                     result={slide.data}
+                     isBusy={reprocessingIds.has(slide.data.id)}
+                     onStrokesChange={(strokes, redoStrokes) => updateStrokes(slide.data, strokes, redoStrokes)}
                    />
+                 ) : slide.type === 'Result' && isDebugging ? (
+                   <DebugPanel result={slide.data} normalization={batchNormalization} />
+                 ) : (
+                 <div className="relative rounded-lg overflow-hidden shadow-2xl bg-zinc-900">
+                   {slide.type === 'Result' ? (
+                     <CompositeView
+                       src={slide.url}
+                       alt={slide.type}
+                       width={slide.data.width}
+                       height={slide.data.height}
+                       backdrop={backdrop}
+                       className="block max-w-full max-h-[80vh] w-auto h-auto"
+                     />
+                   ) : (
+                     <EyedropperImage
+                       src={slide.url}
+                       alt={slide.type}
+                       className="relative max-w-full max-h-[80vh] object-contain"
+                       active={eyedropper.active}
+                       sampleSize={eyedropper.sampleSize}
+                       onSample={handleKeySample}
+                     />
+                   )}
                  </div>
+                 )}
                </div>
             </div>
 
@@ -436,14 +1442,58 @@ const App: React.FC = () => {
             </button>
 
             {/* Footer Actions */}
-            {slide.type === 'Result' && (
+            {slide.type === 'Result' && slide.data.previewScale < 1 && (
+              <div className="absolute bottom-8 flex items-center gap-2 z-10 text-sm text-zinc-400">
+                <Loader2 className="w-4 h-4 animate-spin" /> Rendering full resolution...
+              </div>
+            )}
+            {slide.type === 'Result' && slide.data.previewScale === 1 && (
               <div className="absolute bottom-8 flex gap-4 z-10" onClick={(e) => e.stopPropagation()}>
                 <button 
-                  onClick={() => downloadImage(slide.data.processedUrl, slide.data.fileName)}
+                  onClick={() => downloadResult(slide.data)}
                   className="flex items-center gap-2 bg-white text-zinc-900 px-6 py-3 rounded-full font-bold hover:bg-teal-400 transition-colors shadow-xl"
                 >
                   <Download className="w-5 h-5" /> Download
                 </button>
+                <div className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-full px-4 shadow-xl text-sm">
+                  <Layers className="w-4 h-4 text-zinc-400 mr-1" />
+                  {layerFilesFor(slide.data).map(({ layer, label }) => (
+                    <button
+                      key={layer}
+                      onClick={() => downloadLayer(slide.data, layer)}
+                      className="px-2 py-3 text-zinc-300 hover:text-white font-medium"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button 
+                  onClick={() => { setIsEditingMask(prev => !prev); setIsDebugging(false); }}
+                  className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-colors shadow-xl border ${isEditingMask ? 'bg-teal-500 text-zinc-900 border-teal-400' : 'bg-zinc-800 text-white border-zinc-700 hover:bg-zinc-700'}`}
+                >
+                  <Brush className="w-5 h-5" /> {isEditingMask ? 'Done Editing' : 'Refine Mask'}
+                </button>
+                <button 
+                  onClick={() => { setIsDebugging(prev => !prev); setIsEditingMask(false); }}
+                  title="Show pipeline intermediates"
+                  className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-colors shadow-xl border ${isDebugging ? 'bg-teal-500 text-zinc-900 border-teal-400' : 'bg-zinc-800 text-white border-zinc-700 hover:bg-zinc-700'}`}
+                >
+                  <Bug className="w-5 h-5" /> Debug
+                </button>
+              </div>
+            )}
+
+            {slide.type === 'Original' && (
+              <div className="absolute bottom-8 flex items-center gap-4 z-10" onClick={(e) => e.stopPropagation()}>
+                <button 
+                  onClick={() => setEyedropper(prev => ({ ...prev, active: !prev.active }))}
+                  className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold transition-colors shadow-xl border ${eyedropper.active ? 'bg-teal-500 text-zinc-900 border-teal-400' : 'bg-zinc-800 text-white border-zinc-700 hover:bg-zinc-700'}`}
+                >
+                  <Pipette className="w-5 h-5" /> {eyedropper.active ? 'Picking Key Color' : 'Pick Key Color'}
+                </button>
+                {eyedropper.active && (
+                  <span className="text-xs text-zinc-400">Shift+click to add a sample</span>
+                )}
               </div>
             )}
 
@@ -0,0 +1,30 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parentPort } from 'node:worker_threads';
+import { CliJob, CliJobResult } from '../types';
+import { measureKeyDistance, runPipeline } from '../services/pipeline';
+import { encodePng } from '../services/pngEncoder';
+import { premultiplyAlpha } from '../services/outputEncoder';
+import { decodeImage } from './imageIO';
+
+// Processes one file per message: read, decode, run the pipeline, encode and write.
+// Measure-only jobs just report the key distance.
+parentPort?.on('message', async (job: CliJob) => {
+  let result: CliJobResult;
+  try {
+    const source = decodeImage(await readFile(job.input), job.input);
+    if (job.measureOnly) {
+      result = { ok: true, maxDist: measureKeyDistance(source, job.params) };
+    } else {
+      const { image } = runPipeline(source, job.params, { normalization: job.normalization });
+      const { premultipliedAlpha, pngCompression, bitDepth, dpi } = job.exportSettings;
+      const png = encodePng(premultipliedAlpha ? premultiplyAlpha(image) : image, { level: pngCompression, bitDepth, dpi });
+      await mkdir(path.dirname(job.output), { recursive: true });
+      await writeFile(job.output, png);
+      result = { ok: true };
+    }
+  } catch (error) {
+    result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(result);
+});
@@ -0,0 +1,37 @@
+import path from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { RawImage } from '../types';
+import { decodeTiff } from '../services/tiffDecoder';
+import { applyOrientation, readJpegOrientation } from '../services/orientation';
+
+// Node-side decoding for the CLI. The browser uses canvas for the same job; PNG encoding and TIFF
+// decoding are shared (services/pngEncoder.ts, services/tiffDecoder.ts).
+
+export const SUPPORTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff'];
+
+export const isSupportedImage = (filePath: string) =>
+  SUPPORTED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+
+export const decodeImage = (buffer: Buffer, filePath: string): RawImage => {
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (ext === '.png') {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+  }
+
+  if (ext === '.jpg' || ext === '.jpeg') {
+    // Studio shots easily exceed jpeg-js' default 100 MP / 512 MB safety limits
+    const jpg = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 250, maxMemoryUsageInMB: 4096 });
+    const image = { width: jpg.width, height: jpg.height, data: new Uint8ClampedArray(jpg.data) };
+    // Browsers rotate by the EXIF orientation on decode; jpeg-js does not
+    return applyOrientation(image, readJpegOrientation(buffer));
+  }
+
+  if (ext === '.tif' || ext === '.tiff') {
+    return decodeTiff(buffer);
+  }
+
+  throw new Error(`Unsupported file type "${ext}"`);
+};
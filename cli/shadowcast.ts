@@ -0,0 +1,358 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { Worker } from 'node:worker_threads';
+import { AlgorithmParams, BooleanParamKey, ChoiceParamKey, CliJob, CliJobResult, ExportSettings, NumericParamKey } from '../types';
+import { BUILT_IN_PRESETS, DEFAULT_EXPORT_SETTINGS, DEFAULT_PARAMS, PARAM_CHOICES, PARAM_RANGES, PARAM_TOGGLES } from '../constants';
+import { parsePresetFile, sanitizeParams } from '../services/presetService';
+import { isSupportedImage, SUPPORTED_EXTENSIONS } from './imageIO';
+
+// Headless batch processing:
+//   npm run shadowcast -- in/ -o out/ --preset white-sweep --shave 2
+
+const toKebab = (key: string) => key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+const toSlug = (name: string) => name.trim().toLowerCase().replace(/\s+/g, '-');
+
+const NUMERIC_KEYS = Object.keys(PARAM_RANGES) as NumericParamKey[];
+const CHOICE_KEYS = Object.keys(PARAM_CHOICES) as ChoiceParamKey[];
+const TOGGLE_KEYS = Object.keys(PARAM_TOGGLES) as BooleanParamKey[];
+
+// Short aliases for the most used flags
+const FLAG_ALIASES: Record<string, NumericParamKey> = {
+  shave: 'shavePx',
+  feather: 'featherWidth',
+};
+
+const row = (flags: string, description: string) => `  ${flags.padEnd(32)} ${description}`;
+
+const USAGE = [
+  'Usage: shadowcast <input...> -o <dir> [options]',
+  '',
+  'Inputs can be image files or directories (walked recursively).',
+  `Supported formats: ${SUPPORTED_EXTENSIONS.join(', ')}`,
+  '',
+  'Options:',
+  row('-o, --out <dir>', 'Output directory (relative paths are preserved)'),
+  row('-p, --preset <name|file>', `Built-in preset (${BUILT_IN_PRESETS.map(p => toSlug(p.name)).join(', ')})`),
+  row('', 'or an exported preset JSON file'),
+  row('-j, --jobs <n>', 'Images processed in parallel (default: number of cores)'),
+  row('    --dry-run', 'List what would be processed without writing anything'),
+  ...NUMERIC_KEYS.map(key => row(`    --${toKebab(key)} <n>`, `${PARAM_RANGES[key].min} to ${PARAM_RANGES[key].max}`)),
+  ...CHOICE_KEYS.map(key => row(`    --${toKebab(key)} <value>`, PARAM_CHOICES[key].options.map(o => o.value).join(' | '))),
+  row('    --shave, --feather <n>', 'Aliases for --shave-px and --feather-width'),
+  ...TOGGLE_KEYS.map(key => row(`    --[no-]${toKebab(key)}`, PARAM_TOGGLES[key].label)),
+  row('    --manual-bg-color <color>', '"r,g,b" or "#rrggbb"'),
+  row('    --extra-key-color <color>', 'Additional key sample; repeat for several'),
+  '',
+  'Output (always PNG):',
+  row('    --png-compression <n>', `zlib level 0 to 9 (default: ${DEFAULT_EXPORT_SETTINGS.pngCompression})`),
+  row('    --bit-depth <8|16>', `Bits per channel (default: ${DEFAULT_EXPORT_SETTINGS.bitDepth})`),
+  row('    --premultiplied', 'Write premultiplied instead of straight alpha'),
+  row('    --dpi <n>', `Embedded resolution, 0 to omit (default: ${DEFAULT_EXPORT_SETTINGS.dpi})`),
+  row('-h, --help', 'Show this message'),
+].join('\n');
+
+class UsageError extends Error {}
+
+const parseNumber = (flag: string, value: string): number => {
+  const n = Number(value);
+  if (value.trim() === '' || !Number.isFinite(n)) {
+    throw new UsageError(`--${flag} expects a number, got "${value}"`);
+  }
+  return n;
+};
+
+const parseColor = (flag: string, value: string): [number, number, number] => {
+  const hex = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(value);
+  if (hex) {
+    return [parseInt(hex[1], 16), parseInt(hex[2], 16), parseInt(hex[3], 16)];
+  }
+  const parts = value.split(',').map(v => parseNumber(flag, v));
+  if (parts.length !== 3) {
+    throw new UsageError(`--${flag} expects "r,g,b" or "#rrggbb", got "${value}"`);
+  }
+  return [parts[0], parts[1], parts[2]];
+};
+
+const parseExportSettings = (values: Record<string, unknown>): ExportSettings => {
+  const settings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS };
+  if (typeof values['png-compression'] === 'string') {
+    const level = parseNumber('png-compression', values['png-compression']);
+    if (!Number.isInteger(level) || level < 0 || level > 9) throw new UsageError('--png-compression must be an integer from 0 to 9');
+    settings.pngCompression = level;
+  }
+  if (typeof values['bit-depth'] === 'string') {
+    const depth = parseNumber('bit-depth', values['bit-depth']);
+    if (depth !== 8 && depth !== 16) throw new UsageError('--bit-depth must be 8 or 16');
+    settings.bitDepth = depth;
+  }
+  if (values.premultiplied) settings.premultipliedAlpha = true;
+  if (typeof values.dpi === 'string') {
+    const dpi = parseNumber('dpi', values.dpi);
+    if (dpi < 0) throw new UsageError('--dpi must not be negative');
+    settings.dpi = dpi;
+  }
+  return settings;
+};
+
+const loadPreset = async (nameOrFile: string): Promise<AlgorithmParams> => {
+  const builtIn = BUILT_IN_PRESETS.find(p => toSlug(p.name) === toSlug(nameOrFile));
+  if (builtIn) return builtIn.params;
+
+  let json: string;
+  try {
+    json = await readFile(nameOrFile, 'utf8');
+  } catch {
+    throw new UsageError(`Unknown preset "${nameOrFile}" (not a built-in preset or a readable file)`);
+  }
+  const presets = parsePresetFile(json);
+  if (presets.length === 0) {
+    throw new UsageError(`Preset file "${nameOrFile}" contains no presets`);
+  }
+  if (presets.length > 1) {
+    console.warn(`Using preset "${presets[0].name}" from ${nameOrFile} (${presets.length} presets found)`);
+  }
+  return presets[0].params;
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return walk(full);
+    return Promise.resolve(entry.isFile() && isSupportedImage(full) ? [full] : []);
+  }));
+  return nested.flat().sort();
+};
+
+// Expands the inputs into jobs; files found in a directory keep their path relative to it
+const collectJobs = async (
+  inputs: string[],
+  outDir: string,
+  params: AlgorithmParams,
+  exportSettings: ExportSettings
+): Promise<CliJob[]> => {
+  const jobs: CliJob[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => {
+      throw new UsageError(`Input not found: ${input}`);
+    });
+    const files = info.isDirectory() ? await walk(input) : [input];
+    const base = info.isDirectory() ? input : path.dirname(input);
+    for (const file of files) {
+      const rel = path.relative(base, file);
+      const output = path.join(outDir, rel.replace(/\.[^/.]+$/, '') + '.png');
+      jobs.push({ input: file, output, params, exportSettings });
+    }
+  }
+  return jobs;
+};
+
+// Jobs whose output path was already taken by an earlier job (a.png and a.jpg in one folder, or one
+// relative path under two input directories), keyed by job index. Compared case-insensitively, as on
+// macOS and Windows file systems.
+const findCollisions = (jobs: CliJob[]): Map<number, string> => {
+  const owners = new Map<string, CliJob>();
+  const collisions = new Map<number, string>();
+  jobs.forEach((job, i) => {
+    const key = path.resolve(job.output).toLowerCase();
+    const owner = owners.get(key);
+    if (owner) collisions.set(i, `Output ${job.output} is already written for ${owner.input}`);
+    else owners.set(key, job);
+  });
+  return collisions;
+};
+
+// tsx does not hook into worker threads on its own, so each worker registers it before loading the TS entry
+const spawnWorker = (): Worker => {
+  const tsxApi = import.meta.resolve('tsx/esm/api');
+  const entry = new URL('./cliWorker.ts', import.meta.url).href;
+  return new Worker(
+    `import(${JSON.stringify(tsxApi)}).then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`,
+    { eval: true }
+  );
+};
+
+// Sends one job to a worker. Resolves with a failure if the worker dies on it (uncaught exception,
+// out of memory); `dead` is then set and the worker must not be used again.
+const runOnWorker = (worker: Worker, job: CliJob): Promise<{ result: CliJobResult; dead: boolean }> =>
+  new Promise(resolve => {
+    const settle = (result: CliJobResult, dead: boolean) => {
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+      resolve({ result, dead });
+    };
+    const onMessage = (msg: CliJobResult) => settle(msg, false);
+    const onError = (err: Error) => settle({ ok: false, error: `Worker crashed: ${err.message}` }, true);
+    const onExit = (code: number) => settle({ ok: false, error: `Worker exited with code ${code}` }, true);
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('exit', onExit);
+    worker.postMessage(job);
+  });
+
+// Runs the jobs on `concurrency` worker threads; results are returned in job order.
+// A lane whose worker dies counts that job as failed and continues on a fresh worker.
+const runJobs = async (jobs: CliJob[], concurrency: number): Promise<CliJobResult[]> => {
+  const results = new Array<CliJobResult>(jobs.length);
+  let next = 0;
+  let done = 0;
+
+  const runLane = async () => {
+    let worker = spawnWorker();
+    try {
+      while (next < jobs.length) {
+        const index = next++;
+        const job = jobs[index];
+        const { result, dead } = await runOnWorker(worker, job);
+        if (dead) {
+          await worker.terminate();
+          worker = spawnWorker();
+        }
+        results[index] = result;
+        done++;
+        if ('error' in result) {
+          console.error(`[${done}/${jobs.length}] FAILED ${job.input}: ${result.error}`);
+        } else {
+          console.log(`[${done}/${jobs.length}] ${job.input} -> ${job.measureOnly ? 'measured' : job.output}`);
+        }
+      }
+    } finally {
+      await worker.terminate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, runLane));
+  return results;
+};
+
+const main = async (): Promise<number> => {
+  const options: Parameters<typeof parseArgs>[0]['options'] = {
+    out: { type: 'string', short: 'o' },
+    preset: { type: 'string', short: 'p' },
+    jobs: { type: 'string', short: 'j' },
+    'dry-run': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+    'manual-bg-color': { type: 'string' },
+    'extra-key-color': { type: 'string', multiple: true },
+    'png-compression': { type: 'string' },
+    'bit-depth': { type: 'string' },
+    premultiplied: { type: 'boolean' },
+    dpi: { type: 'string' },
+  };
+  [...NUMERIC_KEYS, ...CHOICE_KEYS].forEach(key => { options[toKebab(key)] = { type: 'string' }; });
+  Object.keys(FLAG_ALIASES).forEach(alias => { options[alias] = { type: 'string' }; });
+  TOGGLE_KEYS.forEach(key => {
+    options[toKebab(key)] = { type: 'boolean' };
+    options[`no-${toKebab(key)}`] = { type: 'boolean' };
+  });
+
+  let parsed;
+  try {
+    parsed = parseArgs({ options, allowPositionals: true });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('No input files or directories given');
+  if (typeof values.out !== 'string') throw new UsageError('Missing --out <dir>');
+
+  // Defaults < preset < individual flags
+  const raw: Record<string, unknown> = {
+    ...(typeof values.preset === 'string' ? await loadPreset(values.preset) : DEFAULT_PARAMS),
+  };
+  NUMERIC_KEYS.forEach(key => {
+    const value = values[toKebab(key)];
+    if (typeof value === 'string') raw[key] = parseNumber(toKebab(key), value);
+  });
+  CHOICE_KEYS.forEach(key => {
+    const value = values[toKebab(key)];
+    if (typeof value === 'string') raw[key] = value;
+  });
+  Object.entries(FLAG_ALIASES).forEach(([alias, key]) => {
+    const value = values[alias];
+    if (typeof value === 'string') raw[key] = parseNumber(alias, value);
+  });
+  TOGGLE_KEYS.forEach(key => {
+    if (values[toKebab(key)]) raw[key] = true;
+    if (values[`no-${toKebab(key)}`]) raw[key] = false;
+  });
+  if (typeof values['manual-bg-color'] === 'string') raw.manualBgColor = parseColor('manual-bg-color', values['manual-bg-color']);
+  const extraKeyColors = values['extra-key-color'];
+  if (Array.isArray(extraKeyColors)) raw.extraKeyColors = extraKeyColors.map(c => parseColor('extra-key-color', String(c)));
+
+  let params: AlgorithmParams;
+  try {
+    params = sanitizeParams(raw);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const exportSettings = parseExportSettings(values);
+  const concurrency = typeof values.jobs === 'string' ? parseNumber('jobs', values.jobs) : os.cpus().length;
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError('--jobs must be a positive integer');
+
+  const allJobs = await collectJobs(positionals, values.out, params, exportSettings);
+  if (allJobs.length === 0) {
+    console.error('No supported images found');
+    return 1;
+  }
+  const collisions = findCollisions(allJobs);
+  const jobs = allJobs.filter((_, i) => !collisions.has(i));
+
+  if (values['dry-run']) {
+    allJobs.forEach((job, i) => console.log(`${job.input} -> ${collisions.has(i) ? `SKIPPED: ${collisions.get(i)}` : job.output}`));
+    console.log(`\n${jobs.length} image(s) would be processed with:\n${JSON.stringify(params, null, 2)}`);
+    return collisions.size > 0 ? 1 : 0;
+  }
+
+  // Batch tolerance: measure every image first so they all share one normalization
+  if (params.toleranceMode === 'batch') {
+    console.log('Measuring batch normalization...');
+    const measured = await runJobs(jobs.map(job => ({ ...job, measureOnly: true })), concurrency);
+    const distances = measured.flatMap(r => 'maxDist' in r && r.maxDist !== undefined ? [r.maxDist] : []);
+    // Without a shared normalization every pixel off the key would come out opaque
+    if (distances.length === 0) {
+      console.error('\nCould not measure the batch tolerance: no image could be read');
+      return 1;
+    }
+    const normalization = Math.max(...distances);
+    jobs.forEach(job => { job.normalization = normalization; });
+  }
+
+  const results = await runJobs(jobs, concurrency);
+  const failures = [
+    ...[...collisions].map(([i, error]) => ({ job: allJobs[i], error })),
+    ...jobs.flatMap((job, i) => {
+      const result = results[i];
+      return 'error' in result ? [{ job, error: result.error }] : [];
+    }),
+  ];
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} of ${allJobs.length} image(s) failed:`);
+    failures.forEach(({ job, error }) => console.error(`  ${job.input}: ${error}`));
+    return 1;
+  }
+
+  console.log(`\nProcessed ${jobs.length} image(s) into ${values.out}`);
+  return 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  }
+);
@@ -0,0 +1,172 @@
+import React, { useRef } from 'react';
+import { Layers, Upload } from 'lucide-react';
+import { Backdrop, BackdropType, CompositeExportMode } from '../types';
+import { loadBackdropImage } from '../services/compositor';
+import { CHECKERBOARD_STYLE } from './CompositeView';
+
+interface BackdropPanelProps {
+  backdrop: Backdrop;
+  onChange: (backdrop: Backdrop) => void;
+}
+
+const TYPES: { type: BackdropType; label: string }[] = [
+  { type: 'none', label: 'Transparent' },
+  { type: 'color', label: 'Color' },
+  { type: 'gradient', label: 'Gradient' },
+  { type: 'image', label: 'Image' },
+];
+
+const EXPORT_MODES: { mode: CompositeExportMode; label: string }[] = [
+  { mode: 'both', label: 'Transparent + composite' },
+  { mode: 'composite', label: 'Composite only' },
+  { mode: 'transparent', label: 'Transparent only' },
+];
+
+const toHex = ([r, g, b]: [number, number, number]) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+const BackdropPanel: React.FC<BackdropPanelProps> = ({ backdrop, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const image = await loadBackdropImage(file);
+      if (backdrop.image) URL.revokeObjectURL(backdrop.image.url);
+      onChange({ ...backdrop, type: 'image', image });
+    } catch (error) {
+      console.error(error);
+      alert(`Could not load ${file.name} as a backdrop.`);
+    }
+  };
+
+  const labelClass = 'text-xs text-zinc-400 uppercase tracking-wide';
+  const percentSlider = (key: 'scale' | 'x' | 'y', label: string, max: number) => (
+    <div className="flex justify-between items-center gap-3">
+      <label htmlFor={`backdrop-${key}`} className={labelClass}>{label}</label>
+      <input
+        id={`backdrop-${key}`}
+        type="range"
+        min={key === 'scale' ? 5 : 0}
+        max={max}
+        value={Math.round(backdrop[key] * 100)}
+        onChange={(e) => onChange({ ...backdrop, [key]: parseInt(e.target.value, 10) / 100 })}
+        className="flex-1 accent-teal-500"
+      />
+      <span className="w-10 text-right text-xs font-mono text-white">{Math.round(backdrop[key] * 100)}%</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-zinc-800 flex items-center gap-2 bg-zinc-850 text-white font-medium">
+        <Layers className="w-4 h-4 text-teal-400" /> Backdrop
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => type === 'image' && !backdrop.image ? fileInputRef.current?.click() : onChange({ ...backdrop, type })}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${backdrop.type === type ? 'bg-teal-500 text-zinc-900 border-teal-400' : 'text-zinc-300 border-zinc-700 hover:text-white'}`}
+            >
+              {type === 'none' && <span className="w-3 h-3 rounded-sm" style={CHECKERBOARD_STYLE} />}
+              {label}
+            </button>
+          ))}
+          <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleUpload} />
+        </div>
+
+        {backdrop.type === 'color' && (
+          <label className={`flex items-center gap-2 ${labelClass}`}>
+            Color
+            <input
+              type="color"
+              value={toHex(backdrop.color)}
+              onChange={(e) => onChange({ ...backdrop, color: fromHex(e.target.value) })}
+              className="w-8 h-6 bg-transparent"
+            />
+          </label>
+        )}
+
+        {backdrop.type === 'gradient' && (
+          <div className="flex flex-wrap items-center gap-6">
+            <label className={`flex items-center gap-2 ${labelClass}`}>
+              From
+              <input
+                type="color"
+                value={toHex(backdrop.gradientFrom)}
+                onChange={(e) => onChange({ ...backdrop, gradientFrom: fromHex(e.target.value) })}
+                className="w-8 h-6 bg-transparent"
+              />
+            </label>
+            <label className={`flex items-center gap-2 ${labelClass}`}>
+              To
+              <input
+                type="color"
+                value={toHex(backdrop.gradientTo)}
+                onChange={(e) => onChange({ ...backdrop, gradientTo: fromHex(e.target.value) })}
+                className="w-8 h-6 bg-transparent"
+              />
+            </label>
+            <label className={`flex flex-1 items-center gap-3 ${labelClass}`}>
+              Angle
+              <input
+                type="range"
+                min={0}
+                max={359}
+                value={backdrop.gradientAngle}
+                onChange={(e) => onChange({ ...backdrop, gradientAngle: parseInt(e.target.value, 10) })}
+                className="flex-1 accent-teal-500"
+              />
+              <span className="w-10 text-right font-mono text-white normal-case">{backdrop.gradientAngle}&deg;</span>
+            </label>
+          </div>
+        )}
+
+        {backdrop.type === 'image' && backdrop.image && (
+          <div className="flex items-center gap-3 text-xs text-zinc-400">
+            <span className="truncate max-w-[240px]">{backdrop.image.fileName}</span>
+            <span className="font-mono text-zinc-500">{backdrop.image.width}x{backdrop.image.height}</span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 hover:text-white transition-colors"
+            >
+              <Upload className="w-3 h-3" /> Replace
+            </button>
+          </div>
+        )}
+
+        {backdrop.type !== 'none' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-8 gap-y-4">
+            {percentSlider('scale', 'Scale', 200)}
+            {percentSlider('x', 'Position X', 100)}
+            {percentSlider('y', 'Position Y', 100)}
+            <div className="flex justify-between items-center">
+              <label htmlFor="backdrop-export" className={labelClass}>Downloads</label>
+              <select
+                id="backdrop-export"
+                value={backdrop.exportMode}
+                onChange={(e) => onChange({ ...backdrop, exportMode: e.target.value as CompositeExportMode })}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white"
+              >
+                {EXPORT_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+              </select>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackdropPanel;
@@ -0,0 +1,63 @@
+import React, { useId } from 'react';
+import { Backdrop } from '../types';
+import { compositeGeometry, cssColor } from '../services/compositor';
+
+// Transparency checkerboard, drawn with CSS gradients (no external assets)
+export const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundColor: '#3f3f46',
+  backgroundImage: 'repeating-conic-gradient(#52525b 0% 25%, transparent 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+interface CompositeViewProps {
+  src: string; // Transparent result
+  alt: string;
+  width: number; // Result size in pixels
+  height: number;
+  backdrop: Backdrop;
+  className?: string; // Sizing of the view; the composite is contained within it
+}
+
+// Previews a result on the chosen backdrop, with the same geometry as the flattened export.
+// Without a backdrop the result is shown over a checkerboard.
+const CompositeView: React.FC<CompositeViewProps> = ({ src, alt, width, height, backdrop, className }) => {
+  // useId() contains characters that are not safe inside url(#...)
+  const gradientId = `backdrop-gradient-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+
+  if (backdrop.type === 'none' || (backdrop.type === 'image' && !backdrop.image)) {
+    return <img src={src} alt={alt} style={CHECKERBOARD_STYLE} className={`object-contain ${className ?? ''}`} />;
+  }
+
+  const g = compositeGeometry(backdrop, width, height);
+  const [x1, y1, x2, y2] = g.gradient;
+
+  return (
+    <svg
+      viewBox={`0 0 ${g.width} ${g.height}`}
+      width={g.width}
+      height={g.height}
+      preserveAspectRatio="xMidYMid meet"
+      role="img"
+      aria-label={alt}
+      className={className}
+    >
+      {backdrop.type === 'gradient' && (
+        <defs>
+          <linearGradient id={gradientId} gradientUnits="userSpaceOnUse" x1={x1} y1={y1} x2={x2} y2={y2}>
+            <stop offset="0" stopColor={cssColor(backdrop.gradientFrom)} />
+            <stop offset="1" stopColor={cssColor(backdrop.gradientTo)} />
+          </linearGradient>
+        </defs>
+      )}
+      {backdrop.type === 'color' && <rect width={g.width} height={g.height} fill={cssColor(backdrop.color)} />}
+      {backdrop.type === 'gradient' && <rect width={g.width} height={g.height} fill={`url(#${gradientId})`} />}
+      {backdrop.type === 'image' && backdrop.image && (
+        <image href={backdrop.image.url} width={g.width} height={g.height} />
+      )}
+      {/* The root <svg> clips to the canvas, like the export */}
+      <image href={src} x={g.x} y={g.y} width={g.drawWidth} height={g.drawHeight} preserveAspectRatio="none" />
+    </svg>
+  );
+};
+
+export default CompositeView;
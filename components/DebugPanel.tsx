@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DEBUG_LAYERS } from '../constants';
+import { DebugLayer, DebugView, ProcessedImage } from '../types';
+import { debugImage } from '../services/imageProcessingService';
+
+interface DebugPanelProps {
+  result: ProcessedImage;
+  normalization?: number; // Shared key distance for toleranceMode 'batch'
+}
+
+const HISTOGRAM_WIDTH = 512;
+const HISTOGRAM_HEIGHT = 96;
+
+// Raw alpha histogram. Bins 0 and 255 (pure background / solid object) dwarf the rest, so they are
+// reported as numbers and the bars show 1-254 on a square-root scale. Raw alpha below the object
+// threshold is shadow, at or above it object.
+const AlphaHistogram: React.FC<{ histogram: number[]; objectThreshold: number }> = ({ histogram, objectThreshold }) => {
+  const total = histogram.reduce((sum, n) => sum + n, 0) || 1;
+  const inner = histogram.slice(1, 255);
+  const peak = Math.sqrt(Math.max(1, ...inner));
+  const barWidth = HISTOGRAM_WIDTH / 256;
+  const thresholdX = objectThreshold * barWidth;
+  const percent = (n: number) => `${((n / total) * 100).toFixed(1)}%`;
+
+  return (
+    <div className="flex flex-col gap-1">
+      <svg
+        viewBox={`0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}`}
+        className="w-full h-24 bg-zinc-950 rounded border border-zinc-800"
+        preserveAspectRatio="none"
+      >
+        <rect x={0} y={0} width={thresholdX} height={HISTOGRAM_HEIGHT} fill="rgba(96, 165, 250, 0.08)" />
+        <rect x={thresholdX} y={0} width={HISTOGRAM_WIDTH - thresholdX} height={HISTOGRAM_HEIGHT} fill="rgba(45, 212, 191, 0.08)" />
+        {inner.map((count, i) => {
+          const h = (Math.sqrt(count) / peak) * HISTOGRAM_HEIGHT;
+          return h > 0 ? (
+            <rect key={i} x={(i + 1) * barWidth} y={HISTOGRAM_HEIGHT - h} width={barWidth} height={h} fill="#a1a1aa" />
+          ) : null;
+        })}
+        <line x1={thresholdX} x2={thresholdX} y1={0} y2={HISTOGRAM_HEIGHT} stroke="#2dd4bf" strokeWidth={2} />
+      </svg>
+      <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+        <span>0: {percent(histogram[0])}</span>
+        <span className="text-teal-400">object threshold {objectThreshold}</span>
+        <span>255: {percent(histogram[255])}</span>
+      </div>
+    </div>
+  );
+};
+
+// Lightbox debug view: false-color renderings of the pipeline intermediates over the original image,
+// and the raw alpha histogram against the object threshold
+const DebugPanel: React.FC<DebugPanelProps> = ({ result, normalization }) => {
+  const [view, setView] = useState<DebugView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [layer, setLayer] = useState<DebugLayer>('alphaRaw');
+  const [opacity, setOpacity] = useState(100);
+
+  useEffect(() => {
+    let cancelled = false;
+    let rendered: DebugView | null = null;
+    setView(null);
+    setError(null);
+    debugImage(result.sourceFile, result.params, { normalization, strokes: result.strokes })
+      .then(debug => {
+        rendered = debug;
+        if (cancelled) Object.values(debug.overlays).forEach(url => URL.revokeObjectURL(url));
+        else setView(debug);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+      if (rendered) Object.values(rendered.overlays).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [result.sourceFile, result.params, result.strokes, normalization]);
+
+  const active = DEBUG_LAYERS.find(d => d.layer === layer)!;
+
+  return (
+    <div className="flex flex-col items-center gap-4 max-w-4xl">
+      <div className="relative rounded-lg overflow-hidden shadow-2xl bg-zinc-900">
+        <img
+          src={result.originalUrl}
+          alt="Original"
+          className="block max-w-full max-h-[60vh] object-contain select-none"
+          draggable={false}
+        />
+        {view && (
+          <img
+            src={view.overlays[layer]}
+            alt={active.label}
+            className="absolute inset-0 w-full h-full select-none"
+            style={{ opacity: opacity / 100, imageRendering: 'pixelated' }}
+            draggable={false}
+          />
+        )}
+        {!view && !error && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+            <Loader2 className="w-8 h-8 text-teal-400 animate-spin" />
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/60 text-sm text-red-400 p-4">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="w-full bg-zinc-900/90 border border-zinc-800 rounded-xl p-4 flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-1">
+          {DEBUG_LAYERS.map(d => (
+            <button
+              key={d.layer}
+              onClick={() => setLayer(d.layer)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${layer === d.layer ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'}`}
+            >
+              {d.label}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-xs text-zinc-400">
+            Opacity
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={opacity}
+              onChange={(e) => setOpacity(parseInt(e.target.value, 10))}
+              className="w-24 accent-teal-500"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-zinc-500">
+          {active.description}
+          {view && view.previewScale < 1 && (
+            <span> &bull; rendered at {view.width} x {view.height} px</span>
+          )}
+        </p>
+        {view && <AlphaHistogram histogram={view.histogram} objectThreshold={result.params.objectThreshold} />}
+      </div>
+    </div>
+  );
+};
+
+export default DebugPanel;
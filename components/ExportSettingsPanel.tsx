@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { FileOutput } from 'lucide-react';
+import { ExportSettings, OutputFormat } from '../types';
+import { OUTPUT_FORMATS } from '../constants';
+import { canEncode } from '../services/imageProcessingService';
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+}
+
+const clampInt = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({ settings, onChange }) => {
+  // Formats the browser's canvas cannot encode (typically AVIF) are shown but disabled
+  const supported = useMemo(
+    () => Object.fromEntries((Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(f => [f, canEncode(f)])) as Record<OutputFormat, boolean>,
+    []
+  );
+  const isPng = settings.format === 'png';
+  const isLossy = settings.format === 'webp' || settings.format === 'avif';
+
+  const labelClass = 'text-xs text-zinc-400 uppercase tracking-wide';
+  const inputClass = 'bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white';
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-zinc-800 flex items-center gap-2 bg-zinc-850 text-white font-medium">
+        <FileOutput className="w-4 h-4 text-teal-400" /> Export
+      </div>
+
+      <div className="p-6 grid grid-cols-2 lg:grid-cols-3 gap-x-8 gap-y-4">
+        <div className="flex justify-between items-center">
+          <label htmlFor="export-format" className={labelClass}>Format</label>
+          <select
+            id="export-format"
+            value={settings.format}
+            onChange={(e) => onChange({ ...settings, format: e.target.value as OutputFormat })}
+            className={inputClass}
+          >
+            {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(f => (
+              <option key={f} value={f} disabled={!supported[f]}>
+                {OUTPUT_FORMATS[f].label}{supported[f] ? '' : ' (not supported by this browser)'}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isLossy && (
+          <div className="flex justify-between items-center gap-3">
+            <label htmlFor="export-quality" className={labelClass}>Quality</label>
+            <input
+              id="export-quality"
+              type="range"
+              min={0}
+              max={100}
+              value={settings.quality}
+              onChange={(e) => onChange({ ...settings, quality: clampInt(parseFloat(e.target.value), 0, 100) })}
+              className="flex-1 accent-teal-500"
+            />
+            <span className="w-8 text-right text-xs font-mono text-white">{settings.quality}</span>
+          </div>
+        )}
+
+        {isPng && (
+          <>
+            <div className="flex justify-between items-center gap-3">
+              <label htmlFor="export-compression" className={labelClass}>Compression</label>
+              <input
+                id="export-compression"
+                type="range"
+                min={0}
+                max={9}
+                value={settings.pngCompression}
+                onChange={(e) => onChange({ ...settings, pngCompression: clampInt(parseFloat(e.target.value), 0, 9) })}
+                className="flex-1 accent-teal-500"
+              />
+              <span className="w-8 text-right text-xs font-mono text-white">{settings.pngCompression}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <label htmlFor="export-depth" className={labelClass}>Bit Depth</label>
+              <select
+                id="export-depth"
+                value={settings.bitDepth}
+                onChange={(e) => onChange({ ...settings, bitDepth: e.target.value === '16' ? 16 : 8 })}
+                className={inputClass}
+              >
+                <option value={8}>8-bit</option>
+                <option value={16}>16-bit</option>
+              </select>
+            </div>
+          </>
+        )}
+
+        {settings.format !== 'avif' && (
+          <div className="flex justify-between items-center">
+            <label htmlFor="export-dpi" className={labelClass}>DPI</label>
+            <input
+              id="export-dpi"
+              type="number"
+              min={0}
+              max={10000}
+              value={settings.dpi}
+              onChange={(e) => {
+                const dpi = parseFloat(e.target.value);
+                if (!Number.isNaN(dpi)) onChange({ ...settings, dpi: clampInt(dpi, 0, 10000) });
+              }}
+              className={`w-20 text-right font-mono ${inputClass}`}
+            />
+          </div>
+        )}
+
+        {/* PNG only: the browser's WebP/AVIF encoders would round premultiplied edges (see outputEncoder) */}
+        {isPng && (
+          <label className={`flex items-center gap-2 cursor-pointer ${labelClass}`}>
+            <input
+              type="checkbox"
+              checked={settings.premultipliedAlpha}
+              onChange={(e) => onChange({ ...settings, premultipliedAlpha: e.target.checked })}
+              className="accent-teal-500"
+            />
+            Premultiplied alpha
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettingsPanel;
@@ -0,0 +1,86 @@
+import React, { useRef } from 'react';
+
+interface EyedropperImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+  active: boolean; // When false this is a plain <img>
+  sampleSize: number; // Side of the averaged square, in source pixels
+  onSample: (color: [number, number, number], additive: boolean) => void;
+}
+
+// Maps a click on an object-contain <img> to source pixel coordinates (null when outside the picture)
+const toImagePoint = (img: HTMLImageElement, clientX: number, clientY: number): [number, number] | null => {
+  const rect = img.getBoundingClientRect();
+  const style = getComputedStyle(img);
+  const left = rect.left + parseFloat(style.paddingLeft);
+  const top = rect.top + parseFloat(style.paddingTop);
+  const boxWidth = rect.width - parseFloat(style.paddingLeft) - parseFloat(style.paddingRight);
+  const boxHeight = rect.height - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+
+  const scale = Math.min(boxWidth / img.naturalWidth, boxHeight / img.naturalHeight);
+  const offsetX = left + (boxWidth - img.naturalWidth * scale) / 2;
+  const offsetY = top + (boxHeight - img.naturalHeight * scale) / 2;
+  const x = Math.floor((clientX - offsetX) / scale);
+  const y = Math.floor((clientY - offsetY) / scale);
+
+  if (x < 0 || y < 0 || x >= img.naturalWidth || y >= img.naturalHeight) return null;
+  return [x, y];
+};
+
+// An image that samples the average color of a sampleSize x sampleSize square on click.
+// Shift+click reports the sample as additive (add a key sample instead of replacing the key).
+const EyedropperImage: React.FC<EyedropperImageProps> = ({ src, alt, className, active, sampleSize, onSample }) => {
+  // Full-resolution copy of the image, drawn once per src
+  const canvasRef = useRef<{ src: string; ctx: CanvasRenderingContext2D } | null>(null);
+
+  const getContext = (img: HTMLImageElement) => {
+    if (canvasRef.current?.src === src) return canvasRef.current.ctx;
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0);
+    canvasRef.current = { src, ctx };
+    return ctx;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!active) return;
+    e.stopPropagation();
+
+    const img = e.currentTarget;
+    const point = toImagePoint(img, e.clientX, e.clientY);
+    const ctx = point && getContext(img);
+    if (!point || !ctx) return;
+
+    const half = Math.floor(sampleSize / 2);
+    const x0 = Math.max(0, point[0] - half);
+    const y0 = Math.max(0, point[1] - half);
+    const x1 = Math.min(img.naturalWidth, point[0] - half + sampleSize);
+    const y1 = Math.min(img.naturalHeight, point[1] - half + sampleSize);
+    const { data } = ctx.getImageData(x0, y0, x1 - x0, y1 - y0);
+
+    const sum = [0, 0, 0];
+    const count = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+    }
+    onSample([Math.round(sum[0] / count), Math.round(sum[1] / count), Math.round(sum[2] / count)], e.shiftKey);
+  };
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      onClick={handleClick}
+      draggable={!active}
+      className={`${className ?? ''} ${active ? 'cursor-crosshair' : ''}`}
+    />
+  );
+};
+
+export default EyedropperImage;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { History, Download, FolderOpen, Trash2, HardDrive, Loader2 } from 'lucide-react';
+import { JobSummary } from '../types';
+import { estimateStorage, listJobs } from '../services/sessionStore';
+
+interface HistoryPanelProps {
+  currentJobId: string | null;
+  version: number; // Bumped whenever stored jobs change, to reload the list
+  onOpen: (jobId: string) => void;
+  onDownload: (jobId: string) => void;
+  onDelete: (jobId: string) => void;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+// Past jobs stored in IndexedDB, with the origin's storage usage
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ currentJobId, version, onOpen, onDownload, onDelete }) => {
+  const [jobs, setJobs] = useState<JobSummary[] | null>(null);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listJobs(), estimateStorage()])
+      .then(([jobs, storage]) => {
+        if (cancelled) return;
+        setJobs(jobs);
+        setStorage(storage);
+      })
+      .catch(error => {
+        console.error('Could not load history', error);
+        if (!cancelled) setJobs([]);
+      });
+    return () => { cancelled = true; };
+  }, [version]);
+
+  const usedShare = storage ? storage.usage / storage.quota : 0;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-zinc-800 flex justify-between items-center bg-zinc-850">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <History className="w-4 h-4 text-teal-400" /> History
+        </div>
+        {storage && (
+          <div className="flex items-center gap-2 text-xs text-zinc-400" title="Storage used by this site (history, queue and settings)">
+            <HardDrive className="w-3 h-3" />
+            <div className="w-32 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${usedShare > 0.8 ? 'bg-red-400' : 'bg-teal-500'}`}
+                style={{ width: `${Math.min(100, Math.max(1, usedShare * 100))}%` }}
+              />
+            </div>
+            <span className="font-mono">{formatBytes(storage.usage)} / {formatBytes(storage.quota)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="divide-y divide-zinc-800 max-h-96 overflow-y-auto">
+        {jobs === null && (
+          <div className="p-6 flex justify-center">
+            <Loader2 className="w-5 h-5 text-teal-400 animate-spin" />
+          </div>
+        )}
+        {jobs?.length === 0 && (
+          <p className="p-6 text-center text-sm text-zinc-500">Processed batches are kept here, in this browser only.</p>
+        )}
+        {jobs?.map(job => (
+          <div key={job.id} className="px-4 py-3 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm text-white">{new Date(job.createdAt).toLocaleString()}</span>
+                {job.id === currentJobId && (
+                  <span className="text-[10px] px-1.5 rounded uppercase tracking-wide bg-teal-900 text-teal-400">Open</span>
+                )}
+              </div>
+              <p className="text-xs text-zinc-500 truncate" title={job.fileNames.join(', ')}>
+                {job.fileNames.length} {job.fileNames.length === 1 ? 'image' : 'images'} &bull; {formatBytes(job.bytes)} &bull; {job.fileNames.join(', ')}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onOpen(job.id)}
+                disabled={job.id === currentJobId}
+                title="Reopen in the results gallery"
+                className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDownload(job.id)}
+                title="Download as ZIP"
+                className="p-2 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDelete(job.id)}
+                title="Delete from history"
+                className="p-2 rounded-full text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Undo2, Redo2, Loader2 } from 'lucide-react';
+import { MaskStroke, ProcessedImage, StrokeMode } from '../types';
+import { CHECKERBOARD_STYLE } from './CompositeView';
+
+interface MaskEditorProps {
+  result: ProcessedImage;
+  isBusy: boolean; // The image is being reprocessed
+  onStrokesChange: (strokes: MaskStroke[], redoStrokes: MaskStroke[]) => void;
+}
+
+const MODES: { mode: StrokeMode; label: string; color: string; className: string }[] = [
+  { mode: 'object', label: 'Force Object', color: 'rgba(45, 212, 191, 0.5)', className: 'bg-teal-500' },
+  { mode: 'shadow', label: 'Force Shadow', color: 'rgba(96, 165, 250, 0.5)', className: 'bg-blue-400' },
+  { mode: 'background', label: 'Force Background', color: 'rgba(248, 113, 113, 0.5)', className: 'bg-red-400' },
+];
+
+const colorFor = (mode: StrokeMode) => MODES.find(m => m.mode === mode)!.color;
+
+// Paints "force object/shadow/background" strokes over the result. Strokes are kept in source image
+// pixel coordinates (mapped through the result's crop/canvas layout); the overlay is only a visual
+// aid at display resolution.
+const MaskEditor: React.FC<MaskEditorProps> = ({ result, isBusy, onStrokesChange }) => {
+  const [mode, setMode] = useState<StrokeMode>('object');
+  const [brushSize, setBrushSize] = useState(30);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const activeStroke = useRef<MaskStroke | null>(null);
+
+  // Display pixels per output pixel
+  const getScale = () => {
+    const img = imgRef.current;
+    return img && result.width > 0 ? img.clientWidth / result.width : 1;
+  };
+
+  // Source pixel -> display pixel, through the layout stage (crop, fit, padding)
+  const toDisplay = ([x, y]: [number, number], scale: number): [number, number] => {
+    const { layout } = result;
+    if (!layout) return [x * scale, y * scale];
+    return [
+      ((x - layout.cropBox.x) * layout.scale + layout.offsetX) * scale,
+      ((y - layout.cropBox.y) * layout.scale + layout.offsetY) * scale,
+    ];
+  };
+
+  const drawStroke = (ctx: CanvasRenderingContext2D, stroke: MaskStroke, scale: number) => {
+    const size = stroke.size * (result.layout?.scale ?? 1) * scale;
+    ctx.strokeStyle = colorFor(stroke.mode);
+    ctx.fillStyle = colorFor(stroke.mode);
+    ctx.lineWidth = size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    const [first, ...rest] = stroke.points.map(p => toDisplay(p, scale));
+    if (!first) return;
+    if (rest.length === 0) {
+      ctx.beginPath();
+      ctx.arc(first[0], first[1], size / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    ctx.beginPath();
+    ctx.moveTo(first[0], first[1]);
+    rest.forEach(([x, y]) => ctx.lineTo(x, y));
+    ctx.stroke();
+  };
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const img = imgRef.current;
+    if (!canvas || !img) return;
+    canvas.width = img.clientWidth;
+    canvas.height = img.clientHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const scale = getScale();
+    result.strokes.forEach(stroke => drawStroke(ctx, stroke, scale));
+    if (activeStroke.current) drawStroke(ctx, activeStroke.current, scale);
+  }, [result]);
+
+  useEffect(() => {
+    redraw();
+    window.addEventListener('resize', redraw);
+    return () => window.removeEventListener('resize', redraw);
+  }, [redraw]);
+
+  // Pointer -> source pixel
+  const toImagePoint = (e: React.PointerEvent): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const scale = getScale();
+    const x = (e.clientX - rect.left) / scale;
+    const y = (e.clientY - rect.top) / scale;
+    const { layout } = result;
+    if (!layout) return [x, y];
+    return [
+      (x - layout.offsetX) / layout.scale + layout.cropBox.x,
+      (y - layout.offsetY) / layout.scale + layout.cropBox.y,
+    ];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // The brush size is picked in output pixels; strokes store it in source pixels
+    activeStroke.current = { mode, size: brushSize / (result.layout?.scale ?? 1), points: [toImagePoint(e)] };
+    redraw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!activeStroke.current) return;
+    activeStroke.current.points.push(toImagePoint(e));
+    redraw();
+  };
+
+  const handlePointerUp = () => {
+    const stroke = activeStroke.current;
+    activeStroke.current = null;
+    if (stroke) onStrokesChange([...result.strokes, stroke], []);
+  };
+
+  const undo = () => {
+    const last = result.strokes[result.strokes.length - 1];
+    if (last) onStrokesChange(result.strokes.slice(0, -1), [...result.redoStrokes, last]);
+  };
+
+  const redo = () => {
+    const last = result.redoStrokes[result.redoStrokes.length - 1];
+    if (last) onStrokesChange([...result.strokes, last], result.redoStrokes.slice(0, -1));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toolButton = 'p-2 rounded-full text-zinc-300 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="relative rounded-lg overflow-hidden shadow-2xl" style={CHECKERBOARD_STYLE}>
+        <img
+          ref={imgRef}
+          src={result.processedUrl}
+          alt="Result"
+          onLoad={redraw}
+          className="relative max-w-full max-h-[70vh] object-contain select-none"
+          draggable={false}
+        />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 cursor-crosshair touch-none"
+        />
+        {isBusy && (
+          <div className="absolute top-2 right-2 bg-black/60 p-1.5 rounded-full">
+            <Loader2 className="w-4 h-4 text-teal-400 animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-4 bg-zinc-900/90 border border-zinc-800 rounded-full px-4 py-2">
+        <div className="flex items-center gap-1">
+          {MODES.map(m => (
+            <button
+              key={m.mode}
+              onClick={() => setMode(m.mode)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${mode === m.mode ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'}`}
+            >
+              <span className={`w-2.5 h-2.5 rounded-full ${m.className}`} />
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-zinc-400">
+          Brush
+          <input
+            type="range"
+            min={2}
+            max={200}
+            value={brushSize}
+            onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+            className="w-24 accent-teal-500"
+          />
+          <span className="font-mono w-8">{brushSize}</span>
+        </label>
+        <div className="flex items-center">
+          <button onClick={undo} disabled={result.strokes.length === 0} title="Undo (Ctrl+Z)" className={toolButton}>
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={redo} disabled={result.redoStrokes.length === 0} title="Redo (Ctrl+Shift+Z)" className={toolButton}>
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
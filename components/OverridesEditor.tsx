@@ -0,0 +1,133 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AlgorithmParams, BooleanParamKey, ChoiceParamKey, NumericParamKey, ParamOverrides } from '../types';
+import { PARAM_CHOICES, PARAM_RANGES, PARAM_TOGGLES } from '../constants';
+
+interface OverridesEditorProps {
+  preset: AlgorithmParams; // Batch settings the overrides apply on top of
+  overrides: ParamOverrides;
+  onChange: (overrides: ParamOverrides) => void;
+}
+
+const labelFor = (key: keyof AlgorithmParams): string =>
+  (PARAM_RANGES as Record<string, { label: string }>)[key]?.label
+  ?? (PARAM_CHOICES as Record<string, { label: string }>)[key]?.label
+  ?? (PARAM_TOGGLES as Record<string, { label: string }>)[key]?.label
+  ?? key;
+
+// Compact editor for one image's parameter overrides. Only overridden settings are listed; any
+// setting from the panel can be added, starting from the preset's value.
+const OverridesEditor: React.FC<OverridesEditorProps> = ({ preset, overrides, onChange }) => {
+  const keys = Object.keys(overrides) as (keyof AlgorithmParams)[];
+  const available = [
+    ...(Object.keys(PARAM_RANGES) as NumericParamKey[]),
+    ...(Object.keys(PARAM_CHOICES) as ChoiceParamKey[]),
+    ...(Object.keys(PARAM_TOGGLES) as BooleanParamKey[]),
+  ].filter(key => !(key in overrides));
+
+  const set = <K extends keyof AlgorithmParams>(key: K, value: AlgorithmParams[K]) => onChange({ ...overrides, [key]: value });
+
+  const remove = (key: keyof AlgorithmParams) => {
+    const next = { ...overrides };
+    delete next[key];
+    onChange(next);
+  };
+
+  const setNumber = (key: NumericParamKey, value: number) => {
+    const { min, max } = PARAM_RANGES[key];
+    if (Number.isNaN(value)) return;
+    set(key, Math.min(max, Math.max(min, value)));
+  };
+
+  const renderControl = (key: keyof AlgorithmParams) => {
+    if (key in PARAM_RANGES) {
+      const numeric = key as NumericParamKey;
+      const { min, max, step } = PARAM_RANGES[numeric];
+      return (
+        <div className="flex items-center gap-2 flex-1">
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={overrides[numeric] ?? preset[numeric]}
+            onChange={(e) => setNumber(numeric, parseFloat(e.target.value))}
+            className="flex-1 accent-teal-500"
+          />
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={overrides[numeric] ?? preset[numeric]}
+            onChange={(e) => setNumber(numeric, parseFloat(e.target.value))}
+            className="w-16 bg-zinc-800 border border-zinc-700 rounded px-2 py-0.5 text-right text-xs font-mono text-white"
+          />
+        </div>
+      );
+    }
+    if (key in PARAM_CHOICES) {
+      const choice = key as ChoiceParamKey;
+      return (
+        <select
+          value={overrides[choice] ?? preset[choice]}
+          onChange={(e) => onChange({ ...overrides, [choice]: e.target.value })}
+          className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white"
+        >
+          {PARAM_CHOICES[choice].options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      );
+    }
+    if (key in PARAM_TOGGLES) {
+      const toggle = key as BooleanParamKey;
+      return (
+        <input
+          type="checkbox"
+          checked={overrides[toggle] ?? preset[toggle]}
+          onChange={(e) => set(toggle, e.target.checked)}
+          className="accent-teal-500"
+        />
+      );
+    }
+    // Settings without a compact control (key colors) are shown but not edited here
+    return <span className="flex-1 text-xs font-mono text-zinc-500 truncate">{JSON.stringify(overrides[key])}</span>;
+  };
+
+  return (
+    <div className="space-y-2">
+      {keys.length === 0 && (
+        <p className="text-xs text-zinc-500">Uses the batch settings. Add an override to change one setting for this image only.</p>
+      )}
+      {keys.map(key => (
+        <div key={key} className="flex items-center gap-3">
+          <span className="w-36 shrink-0 text-xs text-zinc-400 uppercase tracking-wide truncate" title={`Batch: ${JSON.stringify(preset[key])}`}>
+            {labelFor(key)}
+          </span>
+          {renderControl(key)}
+          <button
+            onClick={() => remove(key)}
+            title="Use the batch setting"
+            className="p-1 rounded-full text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const key = e.target.value as keyof AlgorithmParams;
+            if (key) set(key, preset[key]);
+          }}
+          className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300"
+        >
+          <option value="">Add override...</option>
+          {available.map(key => <option key={key} value={key}>{labelFor(key)}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default OverridesEditor;
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, RotateCcw, Loader2, Image as ImageIcon, Pipette, X } from 'lucide-react';
+import { AlgorithmParams, BooleanParamKey, ChoiceParamKey, EyedropperSettings, NumericParamKey } from '../types';
+import { DEFAULT_PARAMS, EYEDROPPER_SAMPLE_SIZES, PARAM_CHOICES, PARAM_RANGES, PARAM_TOGGLES, PREVIEW_DEBOUNCE_MS, PREVIEW_MAX_EDGE } from '../constants';
+import { processImage } from '../services/imageProcessingService';
+import { isAbortError } from '../services/jobQueue';
+import PresetBar from './PresetBar';
+import { CHECKERBOARD_STYLE } from './CompositeView';
+
+interface ParameterPanelProps {
+  params: AlgorithmParams;
+  onChange: (params: AlgorithmParams) => void;
+  previewFiles: File[]; // Candidates for the live preview (queued files and processed sources)
+  eyedropper: EyedropperSettings;
+  onEyedropperChange: (eyedropper: EyedropperSettings) => void;
+}
+
+const toHex = ([r, g, b]: [number, number, number]) =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+const ParameterPanel: React.FC<ParameterPanelProps> = ({ params, onChange, previewFiles, eyedropper, onEyedropperChange }) => {
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const previewFile = previewFiles[Math.min(previewIndex, previewFiles.length - 1)];
+
+  // The preview owns its output URL: revoke it once it is replaced or the panel unmounts
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  // Debounced live preview: re-run the pipeline on a downscaled copy of the selected image whenever params settle.
+  // Superseded runs are aborted, so they leave the shared worker pool instead of competing with batch jobs.
+  useEffect(() => {
+    if (!previewFile) {
+      setPreviewUrl(null);
+      setIsPreviewing(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const result = await processImage(previewFile, params, { previewMaxEdge: PREVIEW_MAX_EDGE, signal: controller.signal });
+        URL.revokeObjectURL(result.originalUrl);
+        if (controller.signal.aborted) {
+          URL.revokeObjectURL(result.processedUrl);
+        } else {
+          setPreviewUrl(result.processedUrl);
+        }
+      } catch (error) {
+        if (!isAbortError(error)) console.error('Preview failed', error);
+      } finally {
+        if (!controller.signal.aborted) setIsPreviewing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [previewFile, params]);
+
+  const setNumber = (key: NumericParamKey, value: number) => {
+    const { min, max } = PARAM_RANGES[key];
+    if (Number.isNaN(value)) return;
+    onChange({ ...params, [key]: Math.min(max, Math.max(min, value)) });
+  };
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-zinc-800 flex justify-between items-center bg-zinc-850">
+        <div className="flex items-center gap-2 text-white font-medium">
+          <SlidersHorizontal className="w-4 h-4 text-teal-400" /> Settings
+        </div>
+        <div className="flex items-center gap-4">
+          <PresetBar params={params} onLoad={onChange} />
+          <button
+            onClick={() => onChange(DEFAULT_PARAMS)}
+            className="flex items-center gap-1 text-xs text-zinc-400 hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset to defaults
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-zinc-800">
+        {/* Controls */}
+        <div className="p-6 space-y-4">
+          {(Object.keys(PARAM_RANGES) as NumericParamKey[]).map(key => {
+            const { label, min, max, step } = PARAM_RANGES[key];
+            return (
+              <div key={key}>
+                <div className="flex justify-between items-center mb-1">
+                  <label htmlFor={`param-${key}`} className="text-xs text-zinc-400 uppercase tracking-wide">{label}</label>
+                  <input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={params[key]}
+                    onChange={(e) => setNumber(key, parseFloat(e.target.value))}
+                    className="w-20 bg-zinc-800 border border-zinc-700 rounded px-2 py-0.5 text-right text-xs font-mono text-white"
+                  />
+                </div>
+                <input
+                  id={`param-${key}`}
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={params[key]}
+                  onChange={(e) => setNumber(key, parseFloat(e.target.value))}
+                  className="w-full accent-teal-500"
+                />
+              </div>
+            );
+          })}
+
+          {(Object.keys(PARAM_CHOICES) as ChoiceParamKey[]).map(key => {
+            const { label, options } = PARAM_CHOICES[key];
+            return (
+              <div key={key} className="flex justify-between items-center">
+                <label htmlFor={`param-${key}`} className="text-xs text-zinc-400 uppercase tracking-wide">{label}</label>
+                <select
+                  id={`param-${key}`}
+                  value={params[key]}
+                  onChange={(e) => onChange({ ...params, [key]: e.target.value })}
+                  className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white"
+                >
+                  {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </div>
+            );
+          })}
+
+          {(Object.keys(PARAM_TOGGLES) as BooleanParamKey[]).map(key => (
+            <label key={key} className="flex items-center gap-2 text-xs text-zinc-400 uppercase tracking-wide cursor-pointer">
+              <input
+                type="checkbox"
+                checked={params[key]}
+                onChange={(e) => onChange({ ...params, [key]: e.target.checked })}
+                className="accent-teal-500"
+              />
+              {PARAM_TOGGLES[key].label}
+            </label>
+          ))}
+
+          {/* Manual background key */}
+          <div className="space-y-2 pt-2">
+            <div className="flex items-center justify-between">
+              <div className={`flex items-center gap-2 text-xs uppercase tracking-wide ${params.autoDetectBg ? 'text-zinc-600' : 'text-zinc-400'}`}>
+                <label className="flex items-center gap-2">
+                  Key color
+                  <input
+                    type="color"
+                    disabled={params.autoDetectBg}
+                    value={toHex(params.manualBgColor)}
+                    onChange={(e) => onChange({ ...params, manualBgColor: fromHex(e.target.value) })}
+                    className="w-8 h-6 bg-transparent disabled:opacity-30"
+                  />
+                </label>
+                {!params.autoDetectBg && params.extraKeyColors.map((color, i) => (
+                  <button
+                    key={i}
+                    onClick={() => onChange({ ...params, extraKeyColors: params.extraKeyColors.filter((_, j) => j !== i) })}
+                    title={`Remove key sample rgb(${color.join(', ')})`}
+                    className="group/swatch w-5 h-5 rounded-sm border border-zinc-600 flex items-center justify-center"
+                    style={{ backgroundColor: `rgb(${color.join(',')})` }}
+                  >
+                    <X className="w-3 h-3 text-white opacity-0 group-hover/swatch:opacity-100 drop-shadow" />
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={eyedropper.sampleSize}
+                  onChange={(e) => onEyedropperChange({ ...eyedropper, sampleSize: parseInt(e.target.value, 10) })}
+                  title="Eyedropper sample area"
+                  className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white"
+                >
+                  {EYEDROPPER_SAMPLE_SIZES.map(n => (
+                    <option key={n} value={n}>{n === 1 ? 'Point sample' : `${n}x${n} average`}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onEyedropperChange({ ...eyedropper, active: !eyedropper.active })}
+                  title="Pick the key color from an original image"
+                  className={`p-1.5 rounded-full border transition-colors ${eyedropper.active ? 'bg-teal-500 text-zinc-900 border-teal-400' : 'text-zinc-400 border-zinc-700 hover:text-white'}`}
+                >
+                  <Pipette className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            {eyedropper.active && (
+              <p className="text-xs text-zinc-500">
+                Click an original image to set the key color. Shift+click to add another key sample.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Live Preview */}
+        <div className="p-6 flex flex-col gap-3">
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-zinc-400 uppercase tracking-wide">Live Preview</span>
+            {previewFiles.length > 1 && (
+              <select
+                value={Math.min(previewIndex, previewFiles.length - 1)}
+                onChange={(e) => setPreviewIndex(parseInt(e.target.value, 10))}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white max-w-[200px]"
+              >
+                {previewFiles.map((f, i) => (
+                  <option key={i} value={i}>{f.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="relative flex-1 min-h-64 rounded-lg overflow-hidden flex items-center justify-center" style={CHECKERBOARD_STYLE}>
+            {previewUrl ? (
+              <img src={previewUrl} alt="Preview" className="absolute inset-0 w-full h-full object-contain p-4" />
+            ) : (
+              <div className="flex flex-col items-center gap-2 text-zinc-300 text-sm">
+                <ImageIcon className="w-6 h-6" />
+                Add an image to preview settings
+              </div>
+            )}
+            {isPreviewing && (
+              <div className="absolute top-2 right-2 bg-black/60 p-1.5 rounded-full">
+                <Loader2 className="w-4 h-4 text-teal-400 animate-spin" />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParameterPanel;
@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { Save, Trash2, FileUp, FileDown } from 'lucide-react';
+import { AlgorithmParams, ParamPreset } from '../types';
+import { BUILT_IN_PRESETS } from '../constants';
+import { loadSavedPresets, paramsEqual, parsePresetFile, savePresets, serializePresets } from '../services/presetService';
+
+interface PresetBarProps {
+  params: AlgorithmParams;
+  onLoad: (params: AlgorithmParams) => void;
+}
+
+const PresetBar: React.FC<PresetBarProps> = ({ params, onLoad }) => {
+  const [userPresets, setUserPresets] = useState<ParamPreset[]>(loadSavedPresets);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allPresets = [...BUILT_IN_PRESETS, ...userPresets];
+  // The selection reflects whichever preset matches the current settings, if any
+  const active = allPresets.find(p => paramsEqual(p.params, params));
+
+  const updateUserPresets = (presets: ParamPreset[]) => {
+    setUserPresets(presets);
+    savePresets(presets);
+  };
+
+  const handleSave = () => {
+    const name = prompt('Preset name', active && !active.builtIn ? active.name : '')?.trim();
+    if (!name) return;
+    if (BUILT_IN_PRESETS.some(p => p.name === name)) {
+      alert(`"${name}" is a built-in preset. Please choose another name.`);
+      return;
+    }
+    updateUserPresets([...userPresets.filter(p => p.name !== name), { name, params }]);
+  };
+
+  const handleDelete = () => {
+    if (!active || active.builtIn) return;
+    updateUserPresets(userPresets.filter(p => p.name !== active.name));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresetFile(await file.text())
+        .filter(p => !BUILT_IN_PRESETS.some(b => b.name === p.name));
+      const names = new Set(imported.map(p => p.name));
+      updateUserPresets([...userPresets.filter(p => !names.has(p.name)), ...imported]);
+      if (imported.length > 0) onLoad(imported[0].params);
+    } catch (error) {
+      alert(`Could not import presets: ${(error as Error).message}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePresets(userPresets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'shadowcast_presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const iconButton = 'p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={active?.name ?? ''}
+        onChange={(e) => {
+          const preset = allPresets.find(p => p.name === e.target.value);
+          if (preset) onLoad(preset.params);
+        }}
+        className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white max-w-[180px] mr-1"
+      >
+        {!active && <option value="">Custom</option>}
+        <optgroup label="Built-in">
+          {BUILT_IN_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </optgroup>
+        {userPresets.length > 0 && (
+          <optgroup label="Saved">
+            {userPresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <button onClick={handleSave} title="Save preset" className={iconButton}>
+        <Save className="w-4 h-4" />
+      </button>
+      <button onClick={handleDelete} disabled={!active || active.builtIn} title="Delete preset" className={iconButton}>
+        <Trash2 className="w-4 h-4" />
+      </button>
+      <button onClick={() => importInputRef.current?.click()} title="Import presets (JSON)" className={iconButton}>
+        <FileUp className="w-4 h-4" />
+      </button>
+      <button onClick={handleExport} disabled={userPresets.length === 0} title="Export saved presets (JSON)" className={iconButton}>
+        <FileDown className="w-4 h-4" />
+      </button>
+      <input
+        type="file"
+        ref={importInputRef}
+        className="hidden"
+        accept=".json,application/json"
+        onChange={handleImport}
+      />
+    </div>
+  );
+};
+
+export default PresetBar;
@@ -1,9 +1,25 @@
-import { AlgorithmParams } from './types';
+import { AlgorithmParams, Backdrop, BooleanParamKey, ChoiceParamKey, DebugLayer, ExportSettings, InputFormatInfo, NumericParamKey, OutputFormat, OutputFormatInfo, ParamChoice, ParamPreset, ParamRange } from './types';
 
-export const MAX_FILES = 10;
+// Upper bound of the "Parallel" batch setting (images processed at once)
+export const MAX_CONCURRENCY = 16;
+
+// Largest fixed canvas side. The canvas is allocated whole: 8000 x 8000 is 64 MP, 256 MB of RGBA.
+export const MAX_CANVAS_EDGE = 8000;
 
 export const DEFAULT_PARAMS: AlgorithmParams = {
-  // Distance in RGB space (0-255) to consider "background".
+  // How color distance to the background key is measured. colorTolerance and fadeStrength
+  // apply to the distance in the chosen metric.
+  // 'rgb' = Euclidean RGB. 'deltaE76' / 'deltaE2000' = perceptual CIELAB difference (good for white/grey sweeps).
+  // 'chroma' = hue/saturation only, ignores brightness (good for unevenly lit green screens).
+  colorMetric: 'rgb',
+
+  // How colorTolerance and fadeStrength are scaled.
+  // 'relative' = against each image's most distinct pixel (original behavior; varies from photo to photo).
+  // 'absolute' = fixed distance units, identical cutoff for every image.
+  // 'batch' = against the most distinct pixel of the whole batch, so a catalog set is processed identically.
+  toleranceMode: 'relative',
+
+  // Distance to the key (in colorMetric units: RGB levels, ΔE or chroma levels) to consider "background".
   // Lower = stricter matching. Higher = wider range of background colors removed.
   // Min: 0 (Strict), Max: 128 (Loose)
   colorTolerance: 15,
@@ -27,6 +43,18 @@ export const DEFAULT_PARAMS: AlgorithmParams = {
   // Min: 1, Max: 254
   objectThreshold: 210,
 
+  // Object and shadow islands smaller than this many pixels (dust, sensor noise, backdrop seams) are dropped.
+  // Min: 0 (Keep everything), Max: 5000
+  minSpeckArea: 16,
+
+  // Holes inside the object up to this many pixels (e.g. punched by reflective highlights) are filled.
+  // Keep it below the size of real openings such as mug handles.
+  // Min: 0 (No filling), Max: 100000
+  maxHoleArea: 100,
+
+  // Keep only the largest object component and the shadow regions touching it.
+  keepLargestObject: false,
+
   // 0.0 to 1.0. Desaturates semi-transparent edges to remove color cast.
   // Min: 0.0 (No desaturation), Max: 1.0 (Black & White edges)
   edgeDesat: 1.0,
@@ -46,5 +74,312 @@ export const DEFAULT_PARAMS: AlgorithmParams = {
   alphaBoost: 2.5,
 
   autoDetectBg: true,
+
+  // Width in pixels of the border band sampled when auto-detecting the background.
+  // Outliers in the band (dust, vignetting, a product touching the edge) are rejected.
+  // Min: 1 (Outermost pixels only), Max: 100
+  borderBand: 10,
+
+  // Shape of the auto-detected background.
+  // 'constant' = one key color. 'plane' / 'quadratic' = smooth gradient, for light falloff on a sweep.
+  bgModel: 'constant',
+
   manualBgColor: [0, 255, 0],
-};
\ No newline at end of file
+
+  // Additional manual key samples (e.g. picked from a wrinkled or unevenly lit backdrop).
+  // Each pixel is measured against the nearest of manualBgColor and these.
+  extraKeyColors: [],
+
+  // Distance transform used by shave and feather.
+  // 'euclidean' gives round, isotropic edges. 'manhattan' is faster but produces diamond-shaped erosion.
+  distanceMetric: 'euclidean',
+
+  // What the output contains.
+  // 'shadow' = grayscale object + shadow overlay, darkened by globalDarkFactor.
+  // 'color' = object in its original colors with neutral dark shadows. 'cutout' = full-color object, no shadow.
+  outputMode: 'shadow',
+
+  // Trim the output to the bounding box of its non-transparent pixels (subject plus shadow).
+  autoCrop: false,
+
+  // Fixed output canvas, e.g. 2000 x 2000 for a catalog. The trimmed subject is scaled to fit inside
+  // the padding. 0 on either side = no fixed canvas (the output is the trimmed size plus padding).
+  // Max: MAX_CANVAS_EDGE per side
+  canvasWidth: 0,
+  canvasHeight: 0,
+
+  // Margin around the subject, in output pixels.
+  canvasPadding: 0,
+
+  // Placement on the canvas. 'bottom' anchors products one padding above the bottom edge,
+  // so they all sit on the same baseline.
+  canvasAlign: 'center',
+
+  // Filter used when fitting scales the subject. 'lanczos' is sharpest, 'bilinear' softest.
+  resampling: 'lanczos',
+
+  // Shadow generated from the final object mask, for subjects shot without one.
+  // 'contact' = tight shadow where the subject meets the floor. 'drop' = cast silhouette. Blends with preserved shadows.
+  syntheticShadow: 'none',
+
+  // Direction the drop shadow is cast, in degrees. 0 = right, 90 = down, 180 = left.
+  // Min: 0, Max: 359
+  shadowAngle: 45,
+
+  // Drop shadow offset in source pixels.
+  // Min: 0 (Directly behind), Max: 500
+  shadowDistance: 20,
+
+  // Shadow softness in source pixels. The contact shadow uses a quarter of it.
+  // Min: 0 (Hard), Max: 200 (Very soft)
+  shadowBlur: 16,
+
+  // Min: 0.0 (Invisible), Max: 1.0 (Solid black)
+  shadowOpacity: 0.5,
+
+  // Perspective of the drop shadow. Shears it sideways with height and lays it flatter on the floor.
+  // Min: -2 (Leans left), 0 (Upright silhouette), Max: 2 (Leans right)
+  shadowSkew: 0,
+
+  // 0.0 to 1.0. Fades the shadow toward the projected top of the subject.
+  // Min: 0.0 (Uniform), Max: 1.0 (Fades out completely)
+  shadowFalloff: 0.5,
+};
+
+// Presets shipped with the app. These cannot be deleted or overwritten by the user.
+export const BUILT_IN_PRESETS: ParamPreset[] = [
+  { name: 'Default', builtIn: true, params: DEFAULT_PARAMS },
+  {
+    name: 'Green Screen',
+    builtIn: true,
+    params: {
+      ...DEFAULT_PARAMS,
+      // Saturated key: a wider tolerance and a short fade stop green spill reading as shadow
+      colorMetric: 'chroma',
+      colorTolerance: 40,
+      fadeStrength: 15,
+      shavePx: 1,
+      featherWidth: 1,
+      autoDetectBg: false,
+      manualBgColor: [0, 177, 64],
+    },
+  },
+  {
+    name: 'White Sweep',
+    builtIn: true,
+    params: {
+      ...DEFAULT_PARAMS,
+      colorMetric: 'deltaE2000',
+      colorTolerance: 8,
+      fadeStrength: 60,
+      alphaBoost: 2.0,
+      // A properly exposed sweep is blown out to pure white
+      autoDetectBg: false,
+      manualBgColor: [255, 255, 255],
+    },
+  },
+  {
+    name: 'Grey Seamless',
+    builtIn: true,
+    params: {
+      ...DEFAULT_PARAMS,
+      colorTolerance: 12,
+      fadeStrength: 40,
+      // Grey paper reads lighter or darker with the lighting, so the backdrop stays auto-detected
+    },
+  },
+];
+
+// Slider ranges for the settings panel. Keep in sync with the Min/Max notes above.
+export const PARAM_RANGES: Record<NumericParamKey, ParamRange> = {
+  colorTolerance: { label: 'Color Tolerance', min: 0, max: 128, step: 1 },
+  fadeStrength: { label: 'Fade Strength', min: 1, max: 100, step: 1 },
+  shavePx: { label: 'Shave (px)', min: 0, max: 50, step: 1 },
+  featherWidth: { label: 'Feather Width (px)', min: 0, max: 100, step: 1 },
+  objectThreshold: { label: 'Object Threshold', min: 1, max: 254, step: 1 },
+  minSpeckArea: { label: 'Min Speck Area (px)', min: 0, max: 5000, step: 1 },
+  maxHoleArea: { label: 'Max Hole Area (px)', min: 0, max: 100000, step: 10 },
+  edgeDesat: { label: 'Edge Desaturation', min: 0, max: 1, step: 0.01 },
+  edgeDark: { label: 'Edge Brightness', min: 0, max: 1, step: 0.01 },
+  globalDarkFactor: { label: 'Global Dark Factor', min: 0, max: 1, step: 0.01 },
+  alphaBoost: { label: 'Alpha Boost', min: 1, max: 3, step: 0.05 },
+  borderBand: { label: 'Border Band (px)', min: 1, max: 100, step: 1 },
+  canvasWidth: { label: 'Canvas Width (px, 0 = off)', min: 0, max: MAX_CANVAS_EDGE, step: 1 },
+  canvasHeight: { label: 'Canvas Height (px, 0 = off)', min: 0, max: MAX_CANVAS_EDGE, step: 1 },
+  canvasPadding: { label: 'Canvas Padding (px)', min: 0, max: 5000, step: 1 },
+  shadowAngle: { label: 'Shadow Angle (°)', min: 0, max: 359, step: 1 },
+  shadowDistance: { label: 'Shadow Distance (px)', min: 0, max: 500, step: 1 },
+  shadowBlur: { label: 'Shadow Blur (px)', min: 0, max: 200, step: 1 },
+  shadowOpacity: { label: 'Shadow Opacity', min: 0, max: 1, step: 0.01 },
+  shadowSkew: { label: 'Shadow Skew', min: -2, max: 2, step: 0.05 },
+  shadowFalloff: { label: 'Shadow Falloff', min: 0, max: 1, step: 0.01 },
+};
+
+// Options for the parameters that are picked from a fixed set of values
+export const PARAM_CHOICES: Record<ChoiceParamKey, ParamChoice> = {
+  colorMetric: {
+    label: 'Color Metric',
+    options: [
+      { value: 'rgb', label: 'RGB (Euclidean)' },
+      { value: 'deltaE76', label: 'CIELAB ΔE 1976' },
+      { value: 'deltaE2000', label: 'CIELAB ΔE 2000' },
+      { value: 'chroma', label: 'Chroma key (hue/saturation)' },
+    ],
+  },
+  toleranceMode: {
+    label: 'Tolerance Mode',
+    options: [
+      { value: 'relative', label: 'Relative (per image)' },
+      { value: 'absolute', label: 'Absolute' },
+      { value: 'batch', label: 'Shared across batch' },
+    ],
+  },
+  outputMode: {
+    label: 'Output Mode',
+    options: [
+      { value: 'shadow', label: 'Grayscale shadow overlay' },
+      { value: 'color', label: 'Color object + shadow' },
+      { value: 'cutout', label: 'Color cutout, no shadow' },
+    ],
+  },
+  bgModel: {
+    label: 'Background Model',
+    options: [
+      { value: 'constant', label: 'Flat color' },
+      { value: 'plane', label: 'Linear gradient' },
+      { value: 'quadratic', label: 'Quadratic gradient' },
+    ],
+  },
+  distanceMetric: {
+    label: 'Distance Metric',
+    options: [
+      { value: 'euclidean', label: 'Euclidean (exact)' },
+      { value: 'manhattan', label: 'Manhattan (fast)' },
+    ],
+  },
+  canvasAlign: {
+    label: 'Canvas Alignment',
+    options: [
+      { value: 'center', label: 'Center' },
+      { value: 'bottom', label: 'Bottom (shared baseline)' },
+    ],
+  },
+  resampling: {
+    label: 'Resampling',
+    options: [
+      { value: 'lanczos', label: 'Lanczos (sharp)' },
+      { value: 'bicubic', label: 'Bicubic' },
+      { value: 'bilinear', label: 'Bilinear (soft)' },
+      { value: 'nearest', label: 'Nearest (pixel art)' },
+    ],
+  },
+  syntheticShadow: {
+    label: 'Synthetic Shadow',
+    options: [
+      { value: 'none', label: 'Off' },
+      { value: 'contact', label: 'Contact shadow' },
+      { value: 'drop', label: 'Drop shadow' },
+      { value: 'both', label: 'Contact + drop shadow' },
+    ],
+  },
+};
+
+// Labels for the on/off parameters
+export const PARAM_TOGGLES: Record<BooleanParamKey, { label: string }> = {
+  autoDetectBg: { label: 'Auto-detect background' },
+  keepLargestObject: { label: 'Keep main subject only' },
+  autoCrop: { label: 'Auto-crop to subject' },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+
+  // 0 to 100. Only used by lossy WebP and AVIF.
+  quality: 90,
+
+  // zlib level. 0 = no compression (fastest), 9 = smallest files. 6 matches most tools.
+  pngCompression: 6,
+
+  // 16-bit PNGs hold the same 8-bit values (each byte repeated), so they add no precision. They are
+  // only for tools or pipelines that require 16-bit input, at about twice the file size.
+  bitDepth: 8,
+
+  premultipliedAlpha: false,
+
+  // Resolution tag for print/layout tools. Does not resample the image.
+  dpi: 72,
+};
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  png: { label: 'PNG', mime: 'image/png', extension: 'png' },
+  'webp-lossless': { label: 'WebP (lossless)', mime: 'image/webp', extension: 'webp' },
+  webp: { label: 'WebP (lossy)', mime: 'image/webp', extension: 'webp' },
+  avif: { label: 'AVIF', mime: 'image/avif', extension: 'avif' },
+};
+
+// Accepted inputs. Files are recognized by their content, not their name. Browsers decode all of these
+// except TIFF, which is decoded in JS and queued as a PNG. GIFs use their first frame.
+export const INPUT_FORMATS: InputFormatInfo[] = [
+  { label: 'JPG', mime: 'image/jpeg', extensions: ['jpg', 'jpeg'] },
+  { label: 'PNG', mime: 'image/png', extensions: ['png'] },
+  { label: 'WebP', mime: 'image/webp', extensions: ['webp'] },
+  { label: 'BMP', mime: 'image/bmp', extensions: ['bmp'] },
+  { label: 'GIF', mime: 'image/gif', extensions: ['gif'] },
+  { label: 'TIFF', mime: 'image/tiff', extensions: ['tif', 'tiff'] },
+];
+
+// `accept` of the file picker
+export const INPUT_ACCEPT = INPUT_FORMATS.flatMap(format => [format.mime, ...format.extensions.map(ext => `.${ext}`)]).join(',');
+
+export const DEFAULT_BACKDROP: Backdrop = {
+  type: 'none',
+  color: [255, 255, 255],
+  gradientFrom: [250, 250, 250],
+  gradientTo: [210, 210, 215],
+  gradientAngle: 180,
+  image: null,
+  scale: 1,
+  x: 0.5,
+  y: 0.5,
+  exportMode: 'both',
+};
+
+// Square sample sizes (px) offered by the eyedropper. Larger areas average out sensor noise.
+export const EYEDROPPER_SAMPLE_SIZES = [1, 3, 5, 9];
+
+// Delay before the live preview re-runs the pipeline after a parameter change
+export const PREVIEW_DEBOUNCE_MS = 300;
+
+// Longest side of fast previews (live settings preview, and batch results before full resolution)
+export const PREVIEW_MAX_EDGE = 1024;
+
+// Longest side the debug view renders at; larger images are downscaled with scaled parameters
+export const DEBUG_MAX_EDGE = 2048;
+
+// Tabs of the lightbox debug view, in pipeline order
+export const DEBUG_LAYERS: { layer: DebugLayer; label: string; description: string }[] = [
+  { layer: 'keyDistance', label: 'Key Distance', description: 'Color distance to the background key (brightest = most distinct)' },
+  { layer: 'alphaRaw', label: 'Raw Alpha', description: 'Keyed alpha before the object/shadow split' },
+  { layer: 'objectMask', label: 'Object', description: 'Raw alpha at or above the object threshold, after cleanup and strokes' },
+  { layer: 'shadowMask', label: 'Shadow', description: 'Raw alpha below the object threshold, after cleanup and strokes' },
+  { layer: 'shavedObj', label: 'Shaved', description: 'Object mask after shaving' },
+  { layer: 'objectFeather', label: 'Feather', description: 'Feather ramp inside the shaved object' },
+  { layer: 'alpha', label: 'Final Alpha', description: 'Output alpha (before the synthetic shadow and layout)' },
+];
+
+// Version written into exported preset files. Bump when AlgorithmParams changes incompatibly.
+export const PRESET_FILE_VERSION = 1;
+
+// Version written into the parameter manifest of batch ZIP exports
+export const MANIFEST_FILE_VERSION = 1;
+
+export const MANIFEST_FILE_NAME = 'shadowcast_parameters.json';
+
+export const PRESET_STORAGE_KEY = 'shadowcast.presets';
+
+// IndexedDB database holding the session (queue, results, settings) and the job history
+export const SESSION_DB_NAME = 'shadowcast';
+export const SESSION_DB_VERSION = 1;
+
+// Settings are written at most this often while sliders are dragged
+export const SETTINGS_SAVE_DEBOUNCE_MS = 500;
\ No newline at end of file
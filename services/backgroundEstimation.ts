@@ -0,0 +1,162 @@
+import { BackgroundModel, BackgroundModelType, RawImage } from '../types';
+
+// Border samples beyond this are skipped with a stride; plenty for a robust fit on 40+ MP images
+const MAX_SAMPLES = 20000;
+// Lower bound for the outlier threshold so sensor noise on a perfectly flat backdrop is not rejected
+const MIN_INLIER_DIST = 4;
+const FIT_ITERATIONS = 3;
+
+// Polynomial terms per model, in normalized coordinates u, v in [-1, 1]
+const basis = (type: BackgroundModelType, u: number, v: number): number[] => {
+  if (type === 'plane') return [1, u, v];
+  if (type === 'quadratic') return [1, u, v, u * u, u * v, v * v];
+  return [1];
+};
+
+const normU = (x: number, width: number) => width > 1 ? (x / (width - 1)) * 2 - 1 : 0;
+const normV = (y: number, height: number) => height > 1 ? (y / (height - 1)) * 2 - 1 : 0;
+
+const median = (values: Float64Array): number => {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort();
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Solves the square system a·x = b in place (Gaussian elimination, partial pivoting). Null if singular.
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-9) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+export const constantBackground = (color: [number, number, number], width: number, height: number): BackgroundModel => ({
+  type: 'constant',
+  coefficients: [[color[0]], [color[1]], [color[2]]],
+  color,
+  width,
+  height,
+});
+
+// Background color at pixel (x, y), written into `out`
+export const evaluateBackground = (model: BackgroundModel, x: number, y: number, out: number[]): void => {
+  const terms = basis(model.type, normU(x, model.width), normV(y, model.height));
+  for (let c = 0; c < 3; c++) {
+    const coeffs = model.coefficients[c];
+    let sum = 0;
+    for (let k = 0; k < terms.length; k++) sum += coeffs[k] * terms[k];
+    out[c] = sum;
+  }
+};
+
+// Samples a band of `band` pixels along all four edges of the image
+const sampleBorder = (image: RawImage, band: number) => {
+  const { width: w, height: h, data } = image;
+  const b = Math.max(1, Math.min(Math.floor(band), Math.floor(Math.min(w, h) / 2) || 1));
+
+  const inBand = (x: number, y: number) => y < b || y >= h - b || x < b || x >= w - b;
+  const total = w * h - Math.max(0, w - 2 * b) * Math.max(0, h - 2 * b);
+  const stride = Math.max(1, Math.ceil(total / MAX_SAMPLES));
+  const count = Math.ceil(total / stride);
+
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  const rgb = [new Float64Array(count), new Float64Array(count), new Float64Array(count)];
+
+  let seen = 0;
+  let n = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      // Jump over the interior of the row
+      if (!inBand(x, y)) {
+        x = w - b - 1;
+        continue;
+      }
+      if (seen++ % stride !== 0 || n >= count) continue;
+      const idx = (y * w + x) * 4;
+      xs[n] = x;
+      ys[n] = y;
+      rgb[0][n] = data[idx];
+      rgb[1][n] = data[idx + 1];
+      rgb[2][n] = data[idx + 2];
+      n++;
+    }
+  }
+
+  return { xs: xs.subarray(0, n), ys: ys.subarray(0, n), rgb: rgb.map(c => c.subarray(0, n)), n };
+};
+
+// Robust background estimate from the image border.
+// Starts from the per-channel median, then alternates between rejecting outliers (dust, vignetting,
+// a product touching the edge) by a MAD threshold and least-squares fitting the model to the inliers.
+export const estimateBackground = (image: RawImage, band: number, type: BackgroundModelType): BackgroundModel => {
+  const { width, height } = image;
+  const samples = sampleBorder(image, band);
+  const { xs, ys, rgb, n } = samples;
+
+  let model = constantBackground([median(rgb[0]), median(rgb[1]), median(rgb[2])], width, height);
+  const inliers = new Uint8Array(n);
+  const residuals = new Float64Array(n);
+  const fitted = [0, 0, 0];
+
+  for (let iter = 0; iter < FIT_ITERATIONS; iter++) {
+    // Outlier rejection against the current model
+    for (let i = 0; i < n; i++) {
+      evaluateBackground(model, xs[i], ys[i], fitted);
+      residuals[i] = Math.sqrt(
+        (rgb[0][i] - fitted[0]) ** 2 + (rgb[1][i] - fitted[1]) ** 2 + (rgb[2][i] - fitted[2]) ** 2
+      );
+    }
+    const threshold = Math.max(3 * 1.4826 * median(residuals), MIN_INLIER_DIST);
+    for (let i = 0; i < n; i++) inliers[i] = residuals[i] <= threshold ? 1 : 0;
+
+    // Least squares on the inliers (normal equations, shared across channels)
+    const terms = basis(type, 0, 0).length;
+    const ata = Array.from({ length: terms }, () => new Array<number>(terms).fill(0));
+    const atb = [0, 1, 2].map(() => new Array<number>(terms).fill(0));
+    for (let i = 0; i < n; i++) {
+      if (!inliers[i]) continue;
+      const row = basis(type, normU(xs[i], width), normV(ys[i], height));
+      for (let j = 0; j < terms; j++) {
+        for (let k = 0; k < terms; k++) ata[j][k] += row[j] * row[k];
+        for (let c = 0; c < 3; c++) atb[c][j] += row[j] * rgb[c][i];
+      }
+    }
+
+    const coefficients = atb.map(b => solve(ata.map(r => r.slice()), b.slice()));
+    if (coefficients.some(c => c === null)) break; // Not enough inliers to fit this model; keep the last one
+
+    model = { type, coefficients: coefficients as number[][], color: [0, 0, 0], width, height };
+  }
+
+  // Representative color for display: the model evaluated at the image center
+  const center = [0, 0, 0];
+  evaluateBackground(model, (width - 1) / 2, (height - 1) / 2, center);
+  model.color = [
+    Math.min(255, Math.max(0, Math.round(center[0]))),
+    Math.min(255, Math.max(0, Math.round(center[1]))),
+    Math.min(255, Math.max(0, Math.round(center[2]))),
+  ];
+  return model;
+};
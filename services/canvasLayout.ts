@@ -0,0 +1,227 @@
+import { AlgorithmParams, CanvasLayout, CropBox, RawImage, ResamplingFilter } from '../types';
+
+// Catalog layout: trim to the visible pixels, then place the subject on a fixed-size canvas
+// (or just pad it) with a consistent margin.
+
+type LayoutParams = Pick<AlgorithmParams, 'autoCrop' | 'canvasWidth' | 'canvasHeight' | 'canvasPadding' | 'canvasAlign' | 'resampling'>;
+
+// Bounding box of all pixels with non-zero alpha, or null for a fully transparent image
+export const computeAlphaBounds = (image: RawImage): CropBox | null => {
+  const { width, height, data } = image;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (data[(row + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      maxY = y;
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Where the (cropped) output goes, or null when the layout stage is a no-op
+export const planLayout = (image: RawImage, params: LayoutParams): CanvasLayout | null => {
+  const fixedCanvas = params.canvasWidth > 0 && params.canvasHeight > 0;
+  if (!params.autoCrop && !fixedCanvas && params.canvasPadding <= 0) return null;
+
+  const full: CropBox = { x: 0, y: 0, width: image.width, height: image.height };
+  const cropBox = (params.autoCrop && computeAlphaBounds(image)) || full;
+  const padding = Math.max(0, Math.round(params.canvasPadding));
+
+  if (!fixedCanvas) {
+    // Trim (and pad) only, no resampling
+    return {
+      cropBox,
+      scale: 1,
+      offsetX: padding,
+      offsetY: padding,
+      width: cropBox.width + 2 * padding,
+      height: cropBox.height + 2 * padding,
+    };
+  }
+
+  // Fit inside the padded area, up or down, keeping the aspect ratio
+  const width = Math.round(params.canvasWidth);
+  const height = Math.round(params.canvasHeight);
+  const availW = Math.max(1, width - 2 * padding);
+  const availH = Math.max(1, height - 2 * padding);
+  const scale = Math.min(availW / cropBox.width, availH / cropBox.height);
+  const placedW = Math.max(1, Math.round(cropBox.width * scale));
+  const placedH = Math.max(1, Math.round(cropBox.height * scale));
+
+  return {
+    cropBox,
+    scale,
+    offsetX: Math.round((width - placedW) / 2),
+    // Bottom alignment puts every product on the same baseline, one margin above the bottom edge
+    offsetY: params.canvasAlign === 'bottom'
+      ? Math.max(0, height - padding - placedH)
+      : Math.round((height - placedH) / 2),
+    width,
+    height,
+  };
+};
+
+// Filter kernels, as [support radius, weight function]
+const FILTERS: Record<ResamplingFilter, [number, (x: number) => number]> = {
+  nearest: [0.5, x => (x >= -0.5 && x < 0.5 ? 1 : 0)],
+  bilinear: [1, x => Math.max(0, 1 - Math.abs(x))],
+  bicubic: [2, x => {
+    // Catmull-Rom (Keys, a = -0.5)
+    const t = Math.abs(x);
+    if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+    if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+    return 0;
+  }],
+  lanczos: [3, x => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= 3) return 0;
+    const px = Math.PI * x;
+    return (3 * Math.sin(px) * Math.sin(px / 3)) / (px * px);
+  }],
+};
+
+interface AxisWeights {
+  starts: Int32Array;
+  counts: Int32Array;
+  weights: Float32Array; // maxTaps per output index
+  maxTaps: number;
+}
+
+// Normalized filter taps mapping srcSize samples onto dstSize. The kernel is widened when
+// downscaling so every source pixel contributes (no aliasing).
+const axisWeights = (srcSize: number, dstSize: number, filter: ResamplingFilter): AxisWeights => {
+  const [support, kernel] = FILTERS[filter];
+  const scale = dstSize / srcSize;
+  const stretch = scale < 1 && filter !== 'nearest' ? 1 / scale : 1;
+  const radius = support * stretch;
+  const maxTaps = Math.ceil(radius * 2) + 1;
+
+  const starts = new Int32Array(dstSize);
+  const counts = new Int32Array(dstSize);
+  const weights = new Float32Array(dstSize * maxTaps);
+
+  for (let o = 0; o < dstSize; o++) {
+    const center = (o + 0.5) / scale - 0.5;
+    const start = Math.max(0, Math.ceil(center - radius));
+    const end = Math.min(srcSize - 1, Math.floor(center + radius));
+    let total = 0;
+    let n = 0;
+    for (let s = start; s <= end && n < maxTaps; s++, n++) {
+      const w = kernel((s - center) / stretch);
+      weights[o * maxTaps + n] = w;
+      total += w;
+    }
+    if (total === 0) {
+      // Nearest fallback for degenerate taps
+      const nearest = Math.min(srcSize - 1, Math.max(0, Math.round(center)));
+      starts[o] = nearest;
+      counts[o] = 1;
+      weights[o * maxTaps] = 1;
+      continue;
+    }
+    for (let k = 0; k < n; k++) weights[o * maxTaps + k] /= total;
+    starts[o] = start;
+    counts[o] = n;
+  }
+
+  return { starts, counts, weights, maxTaps };
+};
+
+// Resamples the crop box of `image` to dstW x dstH. Works on premultiplied alpha so transparent
+// pixels do not bleed their (meaningless) color into the edges.
+const resampleCrop = (image: RawImage, crop: CropBox, dstW: number, dstH: number, filter: ResamplingFilter): Uint8ClampedArray => {
+  const { width, data } = image;
+  const xw = axisWeights(crop.width, dstW, filter);
+  const yw = axisWeights(crop.height, dstH, filter);
+
+  // Horizontal pass: crop.height rows x dstW columns, premultiplied
+  const temp = new Float32Array(crop.height * dstW * 4);
+  for (let y = 0; y < crop.height; y++) {
+    const srcRow = (crop.y + y) * width + crop.x;
+    for (let ox = 0; ox < dstW; ox++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const base = ox * xw.maxTaps;
+      for (let k = 0; k < xw.counts[ox]; k++) {
+        const w = xw.weights[base + k];
+        const idx = (srcRow + xw.starts[ox] + k) * 4;
+        const alpha = data[idx + 3];
+        const wa = w * alpha;
+        r += data[idx] * wa;
+        g += data[idx + 1] * wa;
+        b += data[idx + 2] * wa;
+        a += wa;
+      }
+      const t = (y * dstW + ox) * 4;
+      temp[t] = r;
+      temp[t + 1] = g;
+      temp[t + 2] = b;
+      temp[t + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha
+  const out = new Uint8ClampedArray(dstW * dstH * 4);
+  for (let oy = 0; oy < dstH; oy++) {
+    const base = oy * yw.maxTaps;
+    for (let ox = 0; ox < dstW; ox++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < yw.counts[oy]; k++) {
+        const w = yw.weights[base + k];
+        const t = ((yw.starts[oy] + k) * dstW + ox) * 4;
+        r += temp[t] * w;
+        g += temp[t + 1] * w;
+        b += temp[t + 2] * w;
+        a += temp[t + 3] * w;
+      }
+      const o = (oy * dstW + ox) * 4;
+      if (a > 0.5) {
+        out[o] = r / a;
+        out[o + 1] = g / a;
+        out[o + 2] = b / a;
+        out[o + 3] = a;
+      }
+    }
+  }
+  return out;
+};
+
+// Renders `image` through the layout. The canvas outside the placed subject is transparent.
+export const renderLayout = (image: RawImage, layout: CanvasLayout, filter: ResamplingFilter): RawImage => {
+  const { cropBox } = layout;
+  const placedW = Math.max(1, Math.round(cropBox.width * layout.scale));
+  const placedH = Math.max(1, Math.round(cropBox.height * layout.scale));
+
+  let placed: Uint8ClampedArray;
+  if (placedW === cropBox.width && placedH === cropBox.height) {
+    // Pure crop, copy rows
+    placed = new Uint8ClampedArray(placedW * placedH * 4);
+    for (let y = 0; y < placedH; y++) {
+      const src = ((cropBox.y + y) * image.width + cropBox.x) * 4;
+      placed.set(image.data.subarray(src, src + placedW * 4), y * placedW * 4);
+    }
+  } else {
+    placed = resampleCrop(image, cropBox, placedW, placedH, filter);
+  }
+
+  const out = new Uint8ClampedArray(layout.width * layout.height * 4);
+  // Clip the placed block to the canvas (a padding larger than the canvas still yields a valid image)
+  const x0 = Math.max(0, layout.offsetX);
+  const y0 = Math.max(0, layout.offsetY);
+  const x1 = Math.min(layout.width, layout.offsetX + placedW);
+  const y1 = Math.min(layout.height, layout.offsetY + placedH);
+  for (let y = y0; y < y1; y++) {
+    const src = ((y - layout.offsetY) * placedW + (x0 - layout.offsetX)) * 4;
+    out.set(placed.subarray(src, src + (x1 - x0) * 4), (y * layout.width + x0) * 4);
+  }
+
+  return { width: layout.width, height: layout.height, data: out };
+};
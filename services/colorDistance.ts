@@ -0,0 +1,141 @@
+import { ColorMetric } from '../types';
+
+// Color distance between a pixel and the background key, in the units of the chosen metric:
+//  'rgb'        Euclidean distance in RGB levels (0-441)
+//  'deltaE76'   CIELAB ΔE*ab, ~1 = just noticeable difference (0-~260)
+//  'deltaE2000' CIEDE2000, perceptually uniform ΔE (0-~120)
+//  'chroma'     Distance between hue/saturation points, ignoring brightness (0-510)
+// colorTolerance and fadeStrength are applied to these values the same way for every metric.
+
+export type ColorDistance = (r: number, g: number, b: number, key: number[]) => number;
+
+// sRGB (0-255) to linear light lookup
+const SRGB_TO_LINEAR = new Float64Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  SRGB_TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+const srgbToLinear = (v: number) => {
+  const i = Math.min(255, Math.max(0, Math.round(v)));
+  return SRGB_TO_LINEAR[i];
+};
+
+const labF = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+// sRGB -> CIELAB (D65 white)
+const rgbToLab = (r: number, g: number, b: number, out: number[]) => {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb;
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+  out[0] = 116 * fy - 16;
+  out[1] = 500 * (fx - fy);
+  out[2] = 200 * (fy - fz);
+};
+
+// Hue/saturation as a point on the color wheel, scaled to 0-255. Brightness is discarded,
+// so an unevenly lit backdrop still maps to one point.
+const rgbToChroma = (r: number, g: number, b: number, out: number[]) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const sat = max > 0 ? (max - min) / max : 0;
+
+  let hue = 0;
+  if (max !== min) {
+    const d = max - min;
+    if (max === r) hue = ((g - b) / d) % 6;
+    else if (max === g) hue = (b - r) / d + 2;
+    else hue = (r - g) / d + 4;
+  }
+  const angle = (hue / 6) * 2 * Math.PI;
+  out[0] = 255 * sat * Math.cos(angle);
+  out[1] = 255 * sat * Math.sin(angle);
+  out[2] = 0;
+};
+
+const deltaE2000 = (lab1: number[], lab2: number[]): number => {
+  const [l1, a1, b1] = lab1;
+  const [l2, a2, b2] = lab2;
+  const rad = Math.PI / 180;
+
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const cBar7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + 25 ** 7)));
+
+  const a1p = (1 + g) * a1;
+  const a2p = (1 + g) * a2;
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = c1p === 0 ? 0 : (Math.atan2(b1, a1p) / rad + 360) % 360;
+  const h2p = c2p === 0 ? 0 : (Math.atan2(b2, a2p) / rad + 360) % 360;
+
+  const dLp = l2 - l1;
+  const dCp = c2p - c1p;
+  let dhp = 0;
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad);
+
+  const lBarP = (l1 + l2) / 2;
+  const cBarP = (c1p + c2p) / 2;
+  let hBarP = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hBarP = (h1p + h2p) / 2;
+    else hBarP = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((hBarP - 30) * rad)
+    + 0.24 * Math.cos(2 * hBarP * rad)
+    + 0.32 * Math.cos((3 * hBarP + 6) * rad)
+    - 0.20 * Math.cos((4 * hBarP - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((hBarP - 275) / 25) ** 2));
+  const cBarP7 = cBarP ** 7;
+  const rc = 2 * Math.sqrt(cBarP7 / (cBarP7 + 25 ** 7));
+  const sl = 1 + (0.015 * (lBarP - 50) ** 2) / Math.sqrt(20 + (lBarP - 50) ** 2);
+  const sc = 1 + 0.045 * cBarP;
+  const sh = 1 + 0.015 * cBarP * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+
+  return Math.sqrt(
+    (dLp / sl) ** 2 + (dCp / sc) ** 2 + (dHp / sh) ** 2 + rt * (dCp / sc) * (dHp / sh)
+  );
+};
+
+// Returns a distance function for the metric. The key's conversion is cached, so a constant key
+// is only converted once per image.
+export const createColorDistance = (metric: ColorMetric): ColorDistance => {
+  if (metric === 'rgb') {
+    return (r, g, b, key) => Math.sqrt((r - key[0]) ** 2 + (g - key[1]) ** 2 + (b - key[2]) ** 2);
+  }
+
+  const convert = metric === 'chroma' ? rgbToChroma : rgbToLab;
+  const pixel = [0, 0, 0];
+  const keyConverted = [0, 0, 0];
+  let cachedKey = [NaN, NaN, NaN];
+
+  return (r, g, b, key) => {
+    if (key[0] !== cachedKey[0] || key[1] !== cachedKey[1] || key[2] !== cachedKey[2]) {
+      convert(key[0], key[1], key[2], keyConverted);
+      cachedKey = [key[0], key[1], key[2]];
+    }
+    convert(r, g, b, pixel);
+
+    if (metric === 'deltaE2000') return deltaE2000(pixel, keyConverted);
+    return Math.sqrt(
+      (pixel[0] - keyConverted[0]) ** 2 + (pixel[1] - keyConverted[1]) ** 2 + (pixel[2] - keyConverted[2]) ** 2
+    );
+  };
+};
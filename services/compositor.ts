@@ -0,0 +1,93 @@
+import { Backdrop, BackdropImage, CompositeGeometry, ExportSettings } from '../types';
+import { encodeOutput } from './outputEncoder';
+import { mainThreadEncoder } from './imageProcessingService';
+
+// Places a transparent result on a solid color, gradient or image backdrop. The geometry is shared
+// by the SVG preview (components/CompositeView.tsx) and the flattened export, so both match.
+
+export const cssColor = ([r, g, b]: [number, number, number]) => `rgb(${r}, ${g}, ${b})`;
+
+// Composite canvas: the backdrop image's size, or the cutout's own size for color/gradient.
+// The cutout is fitted inside the canvas, multiplied by backdrop.scale and centered on (x, y).
+export const compositeGeometry = (backdrop: Backdrop, cutoutWidth: number, cutoutHeight: number): CompositeGeometry => {
+  const useImage = backdrop.type === 'image' && backdrop.image;
+  const width = useImage ? backdrop.image!.width : cutoutWidth;
+  const height = useImage ? backdrop.image!.height : cutoutHeight;
+
+  const fit = Math.min(width / cutoutWidth, height / cutoutHeight);
+  const drawWidth = cutoutWidth * fit * backdrop.scale;
+  const drawHeight = cutoutHeight * fit * backdrop.scale;
+
+  // CSS linear-gradient line: through the center, long enough that the corners get the end colors
+  const angle = (backdrop.gradientAngle * Math.PI) / 180;
+  const dx = Math.sin(angle);
+  const dy = -Math.cos(angle);
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+  return {
+    width,
+    height,
+    x: backdrop.x * width - drawWidth / 2,
+    y: backdrop.y * height - drawHeight / 2,
+    drawWidth,
+    drawHeight,
+    gradient: [width / 2 - dx * half, height / 2 - dy * half, width / 2 + dx * half, height / 2 + dy * half],
+  };
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not load image'));
+  img.src = url;
+});
+
+export const loadBackdropImage = async (file: File): Promise<BackdropImage> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    return { url, width: img.naturalWidth, height: img.naturalHeight, fileName: file.name };
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+};
+
+// Flattens the cutout onto the backdrop and encodes it with the export settings
+export const renderComposite = async (cutoutUrl: string, backdrop: Backdrop, settings: ExportSettings): Promise<Blob> => {
+  const cutout = await loadImage(cutoutUrl);
+  const geometry = compositeGeometry(backdrop, cutout.naturalWidth, cutout.naturalHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = geometry.width;
+  canvas.height = geometry.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+
+  if (backdrop.type === 'color') {
+    ctx.fillStyle = cssColor(backdrop.color);
+    ctx.fillRect(0, 0, geometry.width, geometry.height);
+  } else if (backdrop.type === 'gradient') {
+    const [x1, y1, x2, y2] = geometry.gradient;
+    const gradient = ctx.createLinearGradient(x1, y1, x2, y2);
+    gradient.addColorStop(0, cssColor(backdrop.gradientFrom));
+    gradient.addColorStop(1, cssColor(backdrop.gradientTo));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, geometry.width, geometry.height);
+  } else if (backdrop.type === 'image' && backdrop.image) {
+    ctx.drawImage(await loadImage(backdrop.image.url), 0, 0);
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(cutout, geometry.x, geometry.y, geometry.drawWidth, geometry.drawHeight);
+
+  const { data } = ctx.getImageData(0, 0, geometry.width, geometry.height);
+  // The composite is opaque, so premultiplication would be a no-op anyway
+  return encodeOutput(
+    { width: geometry.width, height: geometry.height, data },
+    { ...settings, premultipliedAlpha: false },
+    mainThreadEncoder(canvas, ctx)
+  );
+};
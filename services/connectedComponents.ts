@@ -0,0 +1,205 @@
+import { AlgorithmParams } from '../types';
+
+// Connected-component mask cleanup (specks, holes, main subject).
+//
+// Components are walked one at a time with breadth-first fills instead of being labeled up front, so
+// no per-pixel label array is needed: the scratch is one visited bit per pixel plus the fill queue.
+// A fill's queue holds about its current front, which for real masks stays in the order of the
+// image's width plus height.
+
+const OFFSETS_4 = [[0, -1], [-1, 0], [1, 0], [0, 1]];
+const OFFSETS_8 = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+const INITIAL_QUEUE_CAPACITY = 1024; // Pixel indices; doubles when a front outgrows it
+
+interface FillScratch {
+  width: number;
+  height: number;
+  visited: Uint8Array | null; // One bit per pixel, allocated on first use
+  queue: Int32Array; // Ring buffer, power-of-two capacity
+  peakBytes: number;
+}
+
+const createFillScratch = (width: number, height: number): FillScratch => {
+  const queue = new Int32Array(INITIAL_QUEUE_CAPACITY);
+  return { width, height, visited: null, queue, peakBytes: queue.byteLength };
+};
+
+const trackPeak = (scratch: FillScratch) => {
+  const bytes = (scratch.visited?.byteLength ?? 0) + scratch.queue.byteLength;
+  scratch.peakBytes = Math.max(scratch.peakBytes, bytes);
+};
+
+// Cleared visited bits for the next pass
+const resetVisited = (scratch: FillScratch): Uint8Array => {
+  if (scratch.visited) {
+    scratch.visited.fill(0);
+  } else {
+    scratch.visited = new Uint8Array(Math.ceil((scratch.width * scratch.height) / 8));
+    trackPeak(scratch);
+  }
+  return scratch.visited;
+};
+
+const isVisited = (visited: Uint8Array, i: number): boolean => (visited[i >> 3] & (1 << (i & 7))) !== 0;
+
+// Sets pixel i's visited bit; false when it was already set
+const visit = (visited: Uint8Array, i: number): boolean => {
+  const bit = 1 << (i & 7);
+  if (visited[i >> 3] & bit) return false;
+  visited[i >> 3] |= bit;
+  return true;
+};
+
+// Breadth-first fill from `start` over the pixels `claim` accepts, returning how many it accepted.
+// claim(i) decides whether pixel i belongs to the region and, when it does, marks it (visited bit or a
+// changed mask value) so it is never accepted twice.
+const flood = (scratch: FillScratch, start: number, offsets: number[][], claim: (i: number) => boolean): number => {
+  if (!claim(start)) return 0;
+  const { width, height } = scratch;
+  let queue = scratch.queue;
+  let head = 0;
+  let count = 1;
+  queue[0] = start;
+  let area = 0;
+
+  while (count > 0) {
+    const i = queue[head];
+    head = (head + 1) & (queue.length - 1);
+    count--;
+    area++;
+    const x = i % width;
+    const y = (i / width) | 0;
+    for (const [dx, dy] of offsets) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const n = ny * width + nx;
+      if (!claim(n)) continue;
+      if (count === queue.length) {
+        // Full: unwrap into a buffer twice the size
+        const grown = new Int32Array(queue.length * 2);
+        grown.set(queue.subarray(head));
+        grown.set(queue.subarray(0, head), queue.length - head);
+        queue = scratch.queue = grown;
+        head = 0;
+        trackPeak(scratch);
+      }
+      queue[(head + count) & (queue.length - 1)] = n;
+      count++;
+    }
+  }
+  return area;
+};
+
+// Drops the 8-connected islands of mask smaller than minArea
+const removeSmall = (scratch: FillScratch, mask: Uint8Array, minArea: number) => {
+  const visited = resetVisited(scratch);
+  for (let start = 0; start < mask.length; start++) {
+    if (mask[start] !== 1 || isVisited(visited, start)) continue;
+    const area = flood(scratch, start, OFFSETS_8, i => mask[i] === 1 && visit(visited, i));
+    if (area < minArea) {
+      flood(scratch, start, OFFSETS_8, i => {
+        if (mask[i] !== 1) return false;
+        mask[i] = 0;
+        return true;
+      });
+    }
+  }
+};
+
+// Marks the 8-connected region of `mask` around start with 2; keepMarked then drops everything else
+const mark = (scratch: FillScratch, mask: Uint8Array, start: number) =>
+  flood(scratch, start, OFFSETS_8, i => {
+    if (mask[i] !== 1) return false;
+    mask[i] = 2;
+    return true;
+  });
+
+const keepMarked = (mask: Uint8Array) => {
+  for (let i = 0; i < mask.length; i++) mask[i] = mask[i] === 2 ? 1 : 0;
+};
+
+// Cleans the object/shadow masks in place:
+// 1. drops object and shadow islands smaller than minSpeckArea
+// 2. optionally keeps only the largest object component and the shadow regions touching it
+// 3. fills enclosed holes in the object up to maxHoleArea (as fully opaque object)
+// Returns the peak bytes of scratch memory it used (visited bits plus fill queue).
+export const cleanupMasks = (
+  alphaRaw: Uint8Array,
+  objectMask: Uint8Array,
+  shadowMask: Uint8Array,
+  width: number,
+  height: number,
+  options: Pick<AlgorithmParams, 'minSpeckArea' | 'maxHoleArea' | 'keepLargestObject'>
+): number => {
+  const size = width * height;
+  const scratch = createFillScratch(width, height);
+
+  if (options.minSpeckArea > 1) {
+    removeSmall(scratch, objectMask, options.minSpeckArea);
+    removeSmall(scratch, shadowMask, options.minSpeckArea);
+  }
+
+  if (options.keepLargestObject) {
+    // Largest object component; the first one in scan order wins a tie
+    const visited = resetVisited(scratch);
+    let components = 0;
+    let largestStart = -1;
+    let largestArea = 0;
+    for (let start = 0; start < size; start++) {
+      if (objectMask[start] !== 1 || isVisited(visited, start)) continue;
+      const area = flood(scratch, start, OFFSETS_8, i => objectMask[i] === 1 && visit(visited, i));
+      components++;
+      if (area > largestArea) {
+        largestArea = area;
+        largestStart = start;
+      }
+    }
+    if (components > 1) {
+      mark(scratch, objectMask, largestStart);
+      keepMarked(objectMask);
+    }
+
+    // Keep shadow regions adjacent to the remaining object
+    for (let i = 0; i < size; i++) {
+      if (objectMask[i] !== 1) continue;
+      const x = i % width;
+      const y = (i / width) | 0;
+      for (const [dx, dy] of OFFSETS_8) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (shadowMask[n] === 1) mark(scratch, shadowMask, n);
+      }
+    }
+    keepMarked(shadowMask);
+  }
+
+  if (options.maxHoleArea > 0) {
+    // Holes are 4-connected non-object regions that do not reach the image edge
+    const visited = resetVisited(scratch);
+    for (let start = 0; start < size; start++) {
+      if (objectMask[start] !== 0 || isVisited(visited, start)) continue;
+      let reachesEdge = false;
+      const area = flood(scratch, start, OFFSETS_4, i => {
+        if (objectMask[i] !== 0 || !visit(visited, i)) return false;
+        const x = i % width;
+        if (x === 0 || x === width - 1 || i < width || i >= size - width) reachesEdge = true;
+        return true;
+      });
+      if (!reachesEdge && area <= options.maxHoleArea) {
+        flood(scratch, start, OFFSETS_4, i => {
+          if (objectMask[i] !== 0) return false;
+          objectMask[i] = 1;
+          shadowMask[i] = 0;
+          alphaRaw[i] = 255;
+          return true;
+        });
+      }
+    }
+  }
+
+  return scratch.peakBytes;
+};
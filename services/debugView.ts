@@ -0,0 +1,82 @@
+import { AlgorithmParams, DebugLayer, PipelineOptions, RawImage } from '../types';
+import { runPipeline } from './pipeline';
+
+// False-color renderings of the pipeline intermediates, for the lightbox debug view
+
+export interface DebugRender {
+  width: number;
+  height: number;
+  overlays: Record<DebugLayer, RawImage>;
+  histogram: number[]; // alphaRaw pixel counts, 256 bins
+}
+
+// Viridis stops: perceptually uniform and readable for color-blind users
+const RAMP: [number, number, number][] = [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]];
+
+// Binary masks are tinted where set and transparent elsewhere, so they overlay the original
+const MASK_TINTS: Record<'objectMask' | 'shadowMask' | 'shavedObj', [number, number, number]> = {
+  objectMask: [45, 212, 191],
+  shadowMask: [96, 165, 250],
+  shavedObj: [251, 191, 36],
+};
+const MASK_TINT_ALPHA = 170;
+
+// Continuous value 0-1 -> opaque false color
+const rampOverlay = (width: number, height: number, value: (i: number) => number): RawImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const last = RAMP.length - 1;
+  for (let i = 0; i < width * height; i++) {
+    const t = Math.min(1, Math.max(0, value(i))) * last;
+    const k = Math.min(last - 1, Math.floor(t));
+    const f = t - k;
+    const idx = i * 4;
+    for (let c = 0; c < 3; c++) data[idx + c] = RAMP[k][c] + (RAMP[k + 1][c] - RAMP[k][c]) * f;
+    data[idx + 3] = 255;
+  }
+  return { width, height, data };
+};
+
+const maskOverlay = (width: number, height: number, mask: Uint8Array, [r, g, b]: [number, number, number]): RawImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] !== 1) continue;
+    const idx = i * 4;
+    data[idx] = r;
+    data[idx + 1] = g;
+    data[idx + 2] = b;
+    data[idx + 3] = MASK_TINT_ALPHA;
+  }
+  return { width, height, data };
+};
+
+export const alphaHistogram = (alphaRaw: Uint8Array): number[] => {
+  const bins = new Array<number>(256).fill(0);
+  for (let i = 0; i < alphaRaw.length; i++) bins[alphaRaw[i]]++;
+  return bins;
+};
+
+// Runs the pipeline on the source frame (no layout) and renders every intermediate
+export const renderDebugView = (source: RawImage, params: AlgorithmParams, options: PipelineOptions = {}): DebugRender => {
+  const { width, height } = source;
+  const masks = runPipeline(source, params, { ...options, includeMasks: true, skipLayout: true }).masks!;
+
+  let maxDist = 0;
+  for (let i = 0; i < masks.keyDistance.length; i++) {
+    if (masks.keyDistance[i] > maxDist) maxDist = masks.keyDistance[i];
+  }
+
+  return {
+    width,
+    height,
+    histogram: alphaHistogram(masks.alphaRaw),
+    overlays: {
+      keyDistance: rampOverlay(width, height, i => masks.keyDistance[i] / (maxDist || 1)),
+      alphaRaw: rampOverlay(width, height, i => masks.alphaRaw[i] / 255),
+      objectMask: maskOverlay(width, height, masks.objectMask, MASK_TINTS.objectMask),
+      shadowMask: maskOverlay(width, height, masks.shadowMask, MASK_TINTS.shadowMask),
+      shavedObj: maskOverlay(width, height, masks.shavedObj, MASK_TINTS.shavedObj),
+      objectFeather: rampOverlay(width, height, i => masks.objectFeather[i]),
+      alpha: rampOverlay(width, height, i => masks.alpha[i] / 255),
+    },
+  };
+};
@@ -0,0 +1,126 @@
+import { DistanceMetric } from '../types';
+
+// Fills the initial distance buffer: 0 on the pixels we measure distance *to*, INF everywhere else.
+const initDistances = (mask: Uint8Array, size: number, invert: boolean, inf: number): Float32Array => {
+  const dist = new Float32Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const val = mask[i];
+    // If invert is true, we want distance to nearest 0 (background) from 1 (foreground)
+    // If invert is false, we want distance to nearest 0 (non-mask) from 1 (mask)
+
+    if (invert) {
+      // Distance transform of (1 - mask)
+      // If pixel is 0 (background), dist is 0. If 1 (object), dist is INF initially.
+      dist[i] = val === 0 ? 0 : inf;
+    } else {
+      // Distance transform of mask
+      // If pixel is 1 (object), dist is INF. If 0 (background), dist is 0.
+      dist[i] = val === 1 ? 0 : inf;
+    }
+  }
+
+  return dist;
+};
+
+// Two-pass L1 chamfer. Fast, but erodes/feathers in diamond shapes.
+const computeManhattanDistanceMap = (mask: Uint8Array, width: number, height: number, invert: boolean): Float32Array => {
+  const INF = 1e6;
+  const dist = initDistances(mask, width * height, invert, INF);
+
+  // Pass 1: Top-Left to Bottom-Right
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      if (dist[idx] > 0) {
+        const up = (y > 0) ? dist[(y - 1) * width + x] : INF;
+        const left = (x > 0) ? dist[y * width + (x - 1)] : INF;
+        dist[idx] = Math.min(dist[idx], up + 1, left + 1);
+      }
+    }
+  }
+
+  // Pass 2: Bottom-Right to Top-Left
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const idx = y * width + x;
+      if (dist[idx] > 0) {
+        const down = (y < height - 1) ? dist[(y + 1) * width + x] : INF;
+        const right = (x < width - 1) ? dist[y * width + (x + 1)] : INF;
+        dist[idx] = Math.min(dist[idx], down + 1, right + 1);
+      }
+    }
+  }
+
+  return dist;
+};
+
+// 1D squared distance transform of a sampled function (lower envelope of parabolas).
+// f: input, d: output, v/z: envelope scratch. All sized for at least n (+1 for z).
+const edt1d = (f: Float64Array, d: Float64Array, v: Int32Array, z: Float64Array, n: number) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+};
+
+// Exact Euclidean distance transform (Felzenszwalb & Huttenlocher, separable).
+// Works in place on the output buffer; the only extra memory is O(max(width, height)) scratch,
+// so it scales to 40+ MP images.
+const computeEuclideanDistanceMap = (mask: Uint8Array, width: number, height: number, invert: boolean): Float32Array => {
+  const INF = 1e20;
+  const dist = initDistances(mask, width * height, invert, INF);
+
+  const n = Math.max(width, height);
+  const f = new Float64Array(n);
+  const d = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+
+  // Columns
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = dist[y * width + x];
+    edt1d(f, d, v, z, height);
+    for (let y = 0; y < height; y++) dist[y * width + x] = d[y];
+  }
+
+  // Rows
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) f[x] = dist[row + x];
+    edt1d(f, d, v, z, width);
+    for (let x = 0; x < width; x++) dist[row + x] = Math.sqrt(d[x]);
+  }
+
+  return dist;
+};
+
+export const computeDistanceMap = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  invert: boolean = false,
+  metric: DistanceMetric = 'euclidean'
+): Float32Array => {
+  return metric === 'manhattan'
+    ? computeManhattanDistanceMap(mask, width, height, invert)
+    : computeEuclideanDistanceMap(mask, width, height, invert);
+};
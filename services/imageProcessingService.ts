@@ -1,70 +1,29 @@
-import { AlgorithmParams } from '../types';
+import { AlgorithmParams, DebugLayer, DebugView, LayerExport, OutputFormat, ProcessImageResult, ProcessOptions, RawImage } from '../types';
+import { DEBUG_MAX_EDGE, DEFAULT_EXPORT_SETTINGS, OUTPUT_FORMATS } from '../constants';
+import { measureKeyDistance, runPipeline } from './pipeline';
+import { psdLayers, splitLayers } from './layers';
+import { encodePsd } from './psdWriter';
+import { encodePng } from './pngEncoder';
+import { CanvasEncoder, encodeOutput } from './outputEncoder';
+import { getWorkerPool } from './workerPool';
+import { previewScale, scaleParams, scaleStrokes } from './preview';
+import { renderDebugView } from './debugView';
+import { decodeTiff } from './tiffDecoder';
 
-// Helper to create a simple distance transform (Manhattan/Chamfer approximation)
-// Since exact Euclidean EDT is complex to port perfectly without libraries, 
-// a two-pass L1/L2 approximation is sufficient for "shaving" pixels in web apps.
-const computeDistanceMap = (mask: Uint8Array, width: number, height: number, invert: boolean = false): Float32Array => {
-  const size = width * height;
-  const dist = new Float32Array(size);
-  const INF = 1e6;
+// Browser adapters around the DOM-free pipeline in ./pipeline.ts
 
-  // Initialize
-  for (let i = 0; i < size; i++) {
-    const val = mask[i];
-    // If invert is true, we want distance to nearest 0 (background) from 1 (foreground)
-    // If invert is false, we want distance to nearest 0 (non-mask) from 1 (mask)
-    
-    if (invert) {
-      // Distance transform of (1 - mask)
-      // If pixel is 0 (background), dist is 0. If 1 (object), dist is INF initially.
-      dist[i] = val === 0 ? 0 : INF;
-    } else {
-      // Distance transform of mask
-      // If pixel is 1 (object), dist is INF. If 0 (background), dist is 0. 
-      dist[i] = val === 1 ? 0 : INF;
-    }
-  }
-
-  // Pass 1: Top-Left to Bottom-Right
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const idx = y * width + x;
-      if (dist[idx] > 0) {
-        const up = (y > 0) ? dist[(y - 1) * width + x] : INF;
-        const left = (x > 0) ? dist[y * width + (x - 1)] : INF;
-        dist[idx] = Math.min(dist[idx], up + 1, left + 1);
-      }
-    }
-  }
-
-  // Pass 2: Bottom-Right to Top-Left
-  for (let y = height - 1; y >= 0; y--) {
-    for (let x = width - 1; x >= 0; x--) {
-      const idx = y * width + x;
-      if (dist[idx] > 0) {
-        const down = (y < height - 1) ? dist[(y + 1) * width + x] : INF;
-        const right = (x < width - 1) ? dist[y * width + (x + 1)] : INF;
-        dist[idx] = Math.min(dist[idx], down + 1, right + 1);
-      }
-    }
-  }
-
-  return dist;
-};
-
-export const processImage = async (
-  file: File, 
-  params: AlgorithmParams
-): Promise<{ originalUrl: string; processedUrl: string; width: number; height: number }> => {
-  
+// Main-thread decoding, for browsers without Worker + OffscreenCanvas support.
+// With maxEdge the image is downscaled for a fast preview.
+const decodeOnMainThread = (file: File, maxEdge?: number): Promise<{ url: string; canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D; image: RawImage; scale: number }> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     const url = URL.createObjectURL(file);
     
     img.onload = () => {
       const canvas = document.createElement('canvas');
-      const w = img.width;
-      const h = img.height;
+      const scale = maxEdge ? previewScale(img.width, img.height, maxEdge) : 1;
+      const w = Math.max(1, Math.round(img.width * scale));
+      const h = Math.max(1, Math.round(img.height * scale));
       canvas.width = w;
       canvas.height = h;
       
@@ -74,208 +33,230 @@ export const processImage = async (
         return;
       }
       
-      ctx.drawImage(img, 0, 0);
-      const imageData = ctx.getImageData(0, 0, w, h);
-      const data = imageData.data; // RGBA flat array
-      
-      // --- 1. Detect Background Color ---
-      let keyR: number, keyG: number, keyB: number;
-      
-      if (params.autoDetectBg) {
-        const corners = [
-          [0, 0], 
-          [w - 1, 0], 
-          [0, h - 1], 
-          [w - 1, h - 1]
-        ];
-        
-        let sumR = 0, sumG = 0, sumB = 0;
-        corners.forEach(([cx, cy]) => {
-          const idx = (cy * w + cx) * 4;
-          sumR += data[idx];
-          sumG += data[idx + 1];
-          sumB += data[idx + 2];
-        });
-        keyR = sumR / 4;
-        keyG = sumG / 4;
-        keyB = sumB / 4;
-      } else {
-        [keyR, keyG, keyB] = params.manualBgColor;
-      }
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(img, 0, 0, w, h);
+      const { data } = ctx.getImageData(0, 0, w, h);
+      resolve({ url, canvas, ctx, image: { width: w, height: h, data }, scale });
+    };
+    
+    img.onerror = (err) => reject(err);
+    img.src = url;
+  });
+};
 
-      // --- 2. RAW Alpha (Shadow-friendly) ---
-      const size = w * h;
-      const alphaRaw = new Uint8Array(size); // Equivalent to alpha_raw
-      const origR = new Float32Array(size);
-      const origG = new Float32Array(size);
-      const origB = new Float32Array(size);
-      
-      for (let i = 0; i < size; i++) {
-        const idx = i * 4;
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-        
-        origR[i] = r;
-        origG[i] = g;
-        origB[i] = b;
-      }
+// Canvas-based encoding for WebP/AVIF on the main thread
+export const mainThreadEncoder = (canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): CanvasEncoder =>
+  (image, type, quality) => new Promise((resolve, reject) => {
+    // Resizing also clears the canvas; the layout stage may have changed the output size
+    canvas.width = image.width;
+    canvas.height = image.height;
+    ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Encoding failed')), type, quality);
+  });
 
-      let maxDist = 0;
-      const dists = new Float32Array(size);
-      for (let i = 0; i < size; i++) {
-        const idx = i * 4;
-        const r = data[idx];
-        const g = data[idx + 1];
-        const b = data[idx + 2];
-        const d = Math.sqrt((r - keyR) ** 2 + (g - keyG) ** 2 + (b - keyB) ** 2);
-        dists[i] = d;
-        if (d > maxDist) maxDist = d;
-      }
-      
-      const distMaxDiv = maxDist + 1e-6;
-      const opaqueDistNorm = params.colorTolerance / 255.0;
-      const clearDistNorm = (params.colorTolerance * params.fadeStrength) / 255.0;
+const processImageOnMainThread = async (file: File, params: AlgorithmParams, options: ProcessOptions): Promise<ProcessImageResult> => {
+  const { url, canvas, ctx, image: source, scale } = await decodeOnMainThread(file, options.previewMaxEdge);
+  if (options.signal?.aborted) {
+    URL.revokeObjectURL(url);
+    options.signal.throwIfAborted();
+  }
+  const { image, background, layout } = runPipeline(source, scaleParams(params, scale), {
+    ...options,
+    strokes: options.strokes && scaleStrokes(options.strokes, scale),
+  });
+  const output = options.output ?? DEFAULT_EXPORT_SETTINGS;
+  const blob = await encodeOutput(image, output, mainThreadEncoder(canvas, ctx));
 
-      for (let i = 0; i < size; i++) {
-        const distNorm = dists[i] / distMaxDiv;
-        
-        if (distNorm <= opaqueDistNorm) {
-          alphaRaw[i] = 0;
-        } else if (distNorm > clearDistNorm) {
-          alphaRaw[i] = 255;
-        } else {
-          // mask_fade
-          const fade = (distNorm - opaqueDistNorm) / (clearDistNorm - opaqueDistNorm);
-          alphaRaw[i] = Math.floor(255 * fade);
-        }
-      }
+  return {
+    originalUrl: url,
+    processedUrl: URL.createObjectURL(blob),
+    format: output.format,
+    width: image.width,
+    height: image.height,
+    layout,
+    background,
+    previewScale: scale
+  };
+};
 
-      // --- 3. Identify Object vs Shadows ---
-      const objectMask = new Uint8Array(size);
-      const shadowMask = new Uint8Array(size); // 0 or 1
-      
-      for (let i = 0; i < size; i++) {
-        if (alphaRaw[i] >= params.objectThreshold) objectMask[i] = 1;
-        if (alphaRaw[i] > 0 && alphaRaw[i] < params.objectThreshold) shadowMask[i] = 1;
-      }
+// Whether the browser's canvas can encode the format (PNG is always available via the JS encoder)
+export const canEncode = (format: OutputFormat): boolean => {
+  if (format === 'png') return true;
+  const { mime } = OUTPUT_FORMATS[format];
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL(mime).startsWith(`data:${mime}`);
+};
 
-      // --- 4. Shave (Erosion) ---
-      let shavedObj = new Uint8Array(size);
-      if (params.shavePx > 0) {
-        // Standard Shave: Shrink the object mask.
-        const distInside = computeDistanceMap(objectMask, w, h, true);
-        
-        for(let i=0; i<size; i++) {
-           shavedObj[i] = distInside[i] > params.shavePx ? 1 : 0;
-        }
-      } else {
-        shavedObj.set(objectMask);
-      }
+const supportsWorkers = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
 
-      // --- 5. Feather ---
-      // Only run feathering if width > 0, otherwise it's just hard mask
-      let objectFeather = new Float32Array(size);
-      
-      if (params.featherWidth > 0) {
-        const distFeather = computeDistanceMap(shavedObj, w, h, true);
-        for(let i=0; i<size; i++) {
-          let val = distFeather[i] / params.featherWidth;
-          if (val > 1) val = 1;
-          if (val < 0) val = 0;
-          objectFeather[i] = val;
-        }
-      } else {
-        // If 0 feather width, just use shaved object as full opacity mask for the object part
-        for(let i=0; i<size; i++) {
-            objectFeather[i] = shavedObj[i] === 1 ? 1.0 : 0.0;
-        }
-      }
+export const processImage = async (
+  file: File, 
+  params: AlgorithmParams,
+  options: ProcessOptions = {}
+): Promise<ProcessImageResult> => {
+  if (!supportsWorkers) {
+    return processImageOnMainThread(file, params, options);
+  }
 
-      // --- 6. Final Assembly ---
-      const alpha = new Uint8Array(alphaRaw);
-      const boost = params.alphaBoost || 1.0;
-      
-      for(let i=0; i<size; i++) {
-        let finalA = 0;
+  // The file bytes are transferred to the worker and the encoded output is transferred back
+  const buffer = await file.arrayBuffer();
+  const response = await getWorkerPool().run(
+    {
+      task: 'process',
+      buffer,
+      type: file.type,
+      params,
+      normalization: options.normalization,
+      strokes: options.strokes,
+      output: options.output,
+      previewMaxEdge: options.previewMaxEdge
+    },
+    [buffer],
+    options.signal
+  );
+  if (!('encoded' in response)) {
+    throw new Error('Unexpected worker response');
+  }
 
-        if (shavedObj[i] === 1) {
-          // Inside object
-          finalA = alphaRaw[i] * objectFeather[i];
-        } else {
-            // Outside object (Background or Shadow)
-            if (shadowMask[i] === 1) {
-                // Keep shadow alpha
-                finalA = alphaRaw[i];
-            } else {
-                // Background
-                finalA = 0;
-            }
-        }
+  return {
+    originalUrl: URL.createObjectURL(file),
+    processedUrl: URL.createObjectURL(new Blob([response.encoded], { type: OUTPUT_FORMATS[response.format].mime })),
+    format: response.format,
+    width: response.width,
+    height: response.height,
+    layout: response.layout,
+    background: response.background,
+    previewScale: response.previewScale
+  };
+};
 
-        // Apply Alpha Boost (Denser shadows)
-        // Simulate "merging duplicate layers" by multiplying alpha
-        if (finalA > 0) {
-            finalA = Math.min(255, finalA * boost);
-        }
+// Largest key distance in the image (see measureKeyDistance), without producing any output
+export const measureImage = async (file: File, params: AlgorithmParams, signal?: AbortSignal): Promise<number> => {
+  if (!supportsWorkers) {
+    const { url, image } = await decodeOnMainThread(file);
+    URL.revokeObjectURL(url);
+    signal?.throwIfAborted();
+    return measureKeyDistance(image, params);
+  }
 
-        alpha[i] = finalA;
-      }
+  const buffer = await file.arrayBuffer();
+  const response = await getWorkerPool().run({ task: 'measure', buffer, type: file.type, params }, [buffer], signal);
+  if (!('maxDist' in response)) {
+    throw new Error('Unexpected worker response');
+  }
+  return response.maxDist;
+};
 
-      // --- 7. Edge Desaturation ---
-      const finalR = new Float32Array(size);
-      const finalG = new Float32Array(size);
-      const finalB = new Float32Array(size);
-      
-      for(let i=0; i<size; i++) {
-        let r = origR[i];
-        let g = origG[i];
-        let b = origB[i];
-        const a = alpha[i];
-        
-        if (a > 0 && a < 255) {
-          const gray = 0.2989*r + 0.5870*g + 0.1140*b;
-          r = (r * (1 - params.edgeDesat) + gray * params.edgeDesat) * params.edgeDark;
-          g = (g * (1 - params.edgeDesat) + gray * params.edgeDesat) * params.edgeDark;
-          b = (b * (1 - params.edgeDesat) + gray * params.edgeDesat) * params.edgeDark;
-        }
-        
-        // Clip
-        finalR[i] = Math.min(255, Math.max(0, r));
-        finalG[i] = Math.min(255, Math.max(0, g));
-        finalB[i] = Math.min(255, Math.max(0, b));
-      }
+// PNG re-encoding of a TIFF, which browsers cannot decode. Runs in the worker pool: a full-size TIFF
+// takes long enough to decode that it would freeze the page.
+export const convertTiffToPng = async (file: File, signal?: AbortSignal): Promise<Blob> => {
+  const buffer = await file.arrayBuffer();
+  if (!supportsWorkers) {
+    return new Blob([encodePng(decodeTiff(buffer), { level: 1 })], { type: 'image/png' });
+  }
 
-      // --- 8. Output Final Shadow-Preserved PNG ---
-      const outputData = ctx.createImageData(w, h);
-      const outD = outputData.data;
-      
-      for(let i=0; i<size; i++) {
-        const idx = i * 4;
-        
-        // Use original RGB but darkened globally
-        const origGray = 0.2989 * origR[i] + 0.5870 * origG[i] + 0.1140 * origB[i];
-        const darkGray = Math.min(255, Math.max(0, origGray * params.globalDarkFactor));
-        
-        outD[idx] = darkGray;
-        outD[idx + 1] = darkGray;
-        outD[idx + 2] = darkGray;
-        outD[idx + 3] = alpha[i];
-      }
-      
-      // Draw back to canvas to get blob
-      ctx.putImageData(outputData, 0, 0);
-      
-      const processedUrl = canvas.toDataURL('image/png');
-      resolve({
-        originalUrl: url,
-        processedUrl: processedUrl,
-        width: w,
-        height: h
-      });
-    };
-    
-    img.onerror = (err) => reject(err);
-    img.src = url;
+  const response = await getWorkerPool().run({ task: 'convert', buffer, type: file.type }, [buffer], signal);
+  if (!('png' in response)) {
+    throw new Error('Unexpected worker response');
+  }
+  return new Blob([response.png], { type: 'image/png' });
+};
+
+const exportLayersOnMainThread = async (file: File, params: AlgorithmParams, options: ProcessOptions): Promise<LayerExport> => {
+  const { url, image: source } = await decodeOnMainThread(file);
+  URL.revokeObjectURL(url);
+  const { image, masks, layout } = runPipeline(source, params, { ...options, includeMasks: true, skipLayout: true, separateShadow: true });
+  const layers = splitLayers(image, masks!, layout, params.resampling);
+  const output = options.output ?? DEFAULT_EXPORT_SETTINGS;
+  const encodeLayer = (layer: RawImage) =>
+    new Blob([encodePng(layer, { level: output.pngCompression, dpi: output.dpi })], { type: 'image/png' });
+
+  return {
+    object: encodeLayer(layers.object),
+    shadow: encodeLayer(layers.shadow),
+    matte: encodeLayer(layers.matte),
+    synthetic: layers.synthetic && encodeLayer(layers.synthetic),
+    psd: new Blob([encodePsd(layers.composite, psdLayers(layers))], { type: 'image/vnd.adobe.photoshop' })
+  };
+};
+
+// Re-runs the pipeline and returns the result split into object, shadow, synthetic shadow and matte layers
+// plus a layered PSD
+export const exportLayers = async (
+  file: File,
+  params: AlgorithmParams,
+  options: ProcessOptions = {}
+): Promise<LayerExport> => {
+  if (!supportsWorkers) {
+    return exportLayersOnMainThread(file, params, options);
+  }
+
+  const buffer = await file.arrayBuffer();
+  const response = await getWorkerPool().run(
+    { task: 'layers', buffer, type: file.type, params, normalization: options.normalization, strokes: options.strokes, output: options.output },
+    [buffer]
+  );
+  if (!('psd' in response)) {
+    throw new Error('Unexpected worker response');
+  }
+
+  return {
+    object: new Blob([response.object], { type: 'image/png' }),
+    shadow: new Blob([response.shadow], { type: 'image/png' }),
+    matte: new Blob([response.matte], { type: 'image/png' }),
+    synthetic: response.synthetic && new Blob([response.synthetic], { type: 'image/png' }),
+    psd: new Blob([response.psd], { type: 'image/vnd.adobe.photoshop' })
+  };
+};
+
+const pngUrl = (bytes: BlobPart) => URL.createObjectURL(new Blob([bytes], { type: 'image/png' }));
+
+const debugImageOnMainThread = async (file: File, params: AlgorithmParams, options: ProcessOptions): Promise<DebugView> => {
+  const { url, image: source, scale } = await decodeOnMainThread(file, DEBUG_MAX_EDGE);
+  URL.revokeObjectURL(url);
+  const debug = renderDebugView(source, scaleParams(params, scale), {
+    normalization: options.normalization,
+    strokes: options.strokes && scaleStrokes(options.strokes, scale),
   });
-};
\ No newline at end of file
+  const overlays = {} as Record<DebugLayer, string>;
+  for (const layer of Object.keys(debug.overlays) as DebugLayer[]) {
+    overlays[layer] = pngUrl(encodePng(debug.overlays[layer], { level: 1 }));
+  }
+  return { width: debug.width, height: debug.height, previewScale: scale, overlays, histogram: debug.histogram };
+};
+
+// Re-runs the pipeline and returns its intermediates as false-color overlays (source frame, at most
+// DEBUG_MAX_EDGE on the longest side). The caller revokes the overlay URLs.
+export const debugImage = async (
+  file: File,
+  params: AlgorithmParams,
+  options: ProcessOptions = {}
+): Promise<DebugView> => {
+  if (!supportsWorkers) {
+    return debugImageOnMainThread(file, params, options);
+  }
+
+  const buffer = await file.arrayBuffer();
+  const response = await getWorkerPool().run(
+    {
+      task: 'debug',
+      buffer,
+      type: file.type,
+      params,
+      normalization: options.normalization,
+      strokes: options.strokes,
+      previewMaxEdge: DEBUG_MAX_EDGE
+    },
+    [buffer]
+  );
+  if (!('overlays' in response)) {
+    throw new Error('Unexpected worker response');
+  }
+
+  const overlays = {} as Record<DebugLayer, string>;
+  for (const layer of Object.keys(response.overlays) as DebugLayer[]) {
+    overlays[layer] = pngUrl(response.overlays[layer]);
+  }
+  return { width: response.width, height: response.height, previewScale: response.previewScale, overlays, histogram: response.histogram };
+};
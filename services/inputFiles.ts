@@ -0,0 +1,124 @@
+import { InputFile, InputFormatInfo, RejectedFile } from '../types';
+import { INPUT_FORMATS } from '../constants';
+import { isTiff } from './tiffDecoder';
+import { convertTiffToPng } from './imageProcessingService';
+
+// Intake of files from the picker, drag and drop and the clipboard. Files are recognized by their
+// first bytes, so misnamed or extensionless files still work and renamed non-images are rejected
+// with a reason instead of failing later in the pipeline.
+
+const formatByMime = (mime: string) => INPUT_FORMATS.find(format => format.mime === mime);
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (text: string) => [...text].map(c => c.charCodeAt(0));
+
+// Input format of a file from its first 12 bytes, or undefined when it is not one we accept
+export const sniffInputFormat = (header: Uint8Array): InputFormatInfo | undefined => {
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return formatByMime('image/jpeg');
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return formatByMime('image/png');
+  if (startsWith(header, ascii('RIFF')) && startsWith(header, ascii('WEBP'), 8)) return formatByMime('image/webp');
+  if (startsWith(header, ascii('BM'))) return formatByMime('image/bmp');
+  if (startsWith(header, ascii('GIF87a')) || startsWith(header, ascii('GIF89a'))) return formatByMime('image/gif');
+  if (isTiff(header)) return formatByMime('image/tiff');
+  return undefined;
+};
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// Checks one file and returns what to queue: the file itself, re-typed when its MIME type was missing
+// or wrong, or a PNG conversion for TIFFs. Throws an Error whose message is the rejection reason.
+export const prepareInputFile = async (file: File): Promise<File> => {
+  if (file.size === 0) throw new Error('Empty file');
+
+  const format = sniffInputFormat(new Uint8Array(await file.slice(0, 12).arrayBuffer()));
+  if (!format) {
+    const ext = extensionOf(file.name);
+    throw new Error(ext ? `Unsupported format (.${ext})` : 'Not a supported image');
+  }
+
+  if (format.mime === 'image/tiff') {
+    let png: Blob;
+    try {
+      png = await convertTiffToPng(file);
+    } catch (error) {
+      throw new Error(`Could not read TIFF: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return new File([png], file.name, { type: 'image/png', lastModified: file.lastModified });
+  }
+
+  return file.type === format.mime ? file : new File([file], file.name, { type: format.mime, lastModified: file.lastModified });
+};
+
+// Files from the picker (folder picks carry webkitRelativePath) or a plain file list
+export const inputFilesOf = (files: File[]): InputFile[] =>
+  files.map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+// Splits incoming files into queueable ones and rejections, keeping the incoming order
+export const prepareInputFiles = async (files: InputFile[]): Promise<{ accepted: InputFile[]; rejected: RejectedFile[] }> => {
+  const accepted: InputFile[] = [];
+  const rejected: RejectedFile[] = [];
+  // One at a time: TIFF conversion holds a full-size decoded copy
+  for (const { file, path } of files) {
+    try {
+      accepted.push({ file: await prepareInputFile(file), path });
+    } catch (error) {
+      rejected.push({ name: path, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { accepted, rejected };
+};
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// Every child of a directory: readEntries returns them in batches until an empty one
+const directoryEntries = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+// Files under an entry, depth first, skipping hidden files and folders (.DS_Store and the like).
+// Entry files have no webkitRelativePath; their path is the entry's, relative to the drop.
+const collectEntryFiles = async (entry: FileSystemEntry, out: InputFile[]) => {
+  if (entry.name.startsWith('.')) return;
+  if (entry.isFile) {
+    out.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    const children = await directoryEntries(entry as FileSystemDirectoryEntry);
+    children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    for (const child of children) await collectEntryFiles(child, out);
+  }
+};
+
+// Files of a drop, with dropped folders expanded recursively
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<InputFile[]> => {
+  // Entries must be taken synchronously: the DataTransfer is emptied once the drop handler returns
+  const entries = [...dataTransfer.items]
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.());
+  if (entries.length === 0 || entries.some(entry => !entry)) return inputFilesOf([...dataTransfer.files]);
+
+  const files: InputFile[] = [];
+  for (const entry of entries) await collectEntryFiles(entry!, files);
+  return files;
+};
+
+// Pasted images. Screenshots arrive as "image.png", so generic names are made unique per paste.
+export const filesFromClipboard = (clipboardData: DataTransfer): File[] => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '_').slice(0, 15);
+  return [...clipboardData.files].map((file, i) => {
+    if (file.name && !/^image\.\w+$/i.test(file.name)) return file;
+    const ext = INPUT_FORMATS.find(format => format.mime === file.type)?.extensions[0] ?? 'png';
+    return new File([file], `pasted_${stamp}_${i + 1}.${ext}`, { type: file.type, lastModified: file.lastModified });
+  });
+};
@@ -0,0 +1,30 @@
+// Bounded-concurrency runner for batch jobs.
+// Items start in order and a new one starts only when a running one settles, so a batch of any size
+// never holds more than `concurrency` decoded images at once (backpressure on the worker pool).
+
+// Runs `task` over `items` with at most `concurrency` in flight. Once `signal` aborts no further
+// items start; running ones are expected to observe the signal themselves.
+// `task` handles its own errors: a rejection stops the whole run.
+export const runQueue = async <T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  const lanes = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+};
+
+// Whether an error comes from an aborted signal rather than a real failure
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
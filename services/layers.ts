@@ -0,0 +1,67 @@
+import { CanvasLayout, PipelineMasks, RawImage, ResamplingFilter } from '../types';
+import { renderLayout } from './canvasLayout';
+import { mergeSyntheticShadow, shadowLayer } from './syntheticShadow';
+import { PsdLayer } from './psdWriter';
+
+export interface ImageLayers {
+  composite: RawImage; // The regular output, synthetic shadow merged
+  object: RawImage; // Object pixels only, transparent elsewhere
+  shadow: RawImage; // Preserved shadow pixels only, transparent elsewhere
+  synthetic: RawImage | null; // Synthetic shadow only, null when the stage is off
+  matte: RawImage; // Final alpha as an opaque grayscale image
+}
+
+// Final alpha as an opaque grayscale image
+const alphaMatte = ({ width, height, data }: RawImage): RawImage => {
+  const matte = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    matte[i] = a;
+    matte[i + 1] = a;
+    matte[i + 2] = a;
+    matte[i + 3] = 255;
+  }
+  return { width, height, data: matte };
+};
+
+// Splits full-frame pipeline output (run with skipLayout and separateShadow) into its object, shadow
+// and synthetic shadow parts plus the alpha matte, then applies the catalog layout to each. The object
+// and shadow layers are disjoint, so stacking them over the synthetic shadow reproduces the output.
+export const splitLayers = (
+  image: RawImage,
+  masks: PipelineMasks,
+  layout: CanvasLayout | null,
+  filter: ResamplingFilter
+): ImageLayers => {
+  const { width, height, data } = image;
+  const size = width * height;
+  const object = new Uint8ClampedArray(size * 4);
+  const shadow = new Uint8ClampedArray(size * 4);
+
+  for (let i = 0; i < size; i++) {
+    const idx = i * 4;
+    const target = masks.shavedObj[i] === 1 ? object : shadow;
+    target[idx] = data[idx];
+    target[idx + 1] = data[idx + 1];
+    target[idx + 2] = data[idx + 2];
+    target[idx + 3] = data[idx + 3];
+  }
+
+  const place = (layer: RawImage) => layout ? renderLayout(layer, layout, filter) : layer;
+  const synthetic = masks.syntheticShadow;
+  const composite = place(synthetic ? mergeSyntheticShadow(image, synthetic) : image);
+  return {
+    composite,
+    object: place({ width, height, data: object }),
+    shadow: place({ width, height, data: shadow }),
+    synthetic: synthetic ? place(shadowLayer(synthetic, width, height)) : null,
+    matte: alphaMatte(composite),
+  };
+};
+
+// PSD layers, bottom to top
+export const psdLayers = (layers: ImageLayers): PsdLayer[] => [
+  ...(layers.synthetic ? [{ name: 'Synthetic Shadow', image: layers.synthetic }] : []),
+  { name: 'Shadow', image: layers.shadow },
+  { name: 'Object', image: layers.object },
+];
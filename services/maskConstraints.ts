@@ -0,0 +1,80 @@
+import { MaskStroke, StrokeMode } from '../types';
+
+// Manual refinement: brush strokes rasterized into hard constraints on the object/shadow masks.
+
+const MODE_CODES: Record<StrokeMode, number> = { object: 1, shadow: 2, background: 3 };
+
+const stamp = (constraints: Uint8Array, width: number, height: number, cx: number, cy: number, radius: number, code: number) => {
+  const r2 = radius * radius;
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      if ((x - cx) ** 2 + (y - cy) ** 2 <= r2) constraints[y * width + x] = code;
+    }
+  }
+};
+
+// One code per pixel: 0 = unconstrained, 1 = object, 2 = shadow, 3 = background. Later strokes win.
+export const rasterizeStrokes = (strokes: MaskStroke[], width: number, height: number): Uint8Array => {
+  const constraints = new Uint8Array(width * height);
+
+  for (const stroke of strokes) {
+    const code = MODE_CODES[stroke.mode];
+    const radius = Math.max(0.5, stroke.size / 2);
+    const step = Math.max(1, radius / 2);
+    const points = stroke.points;
+
+    for (let p = 0; p < points.length; p++) {
+      const [x, y] = points[p];
+      if (p === 0) {
+        stamp(constraints, width, height, x, y, radius, code);
+        continue;
+      }
+      // Stamp along the segment so fast pointer moves leave no gaps
+      const [px, py] = points[p - 1];
+      const steps = Math.ceil(Math.hypot(x - px, y - py) / step);
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps;
+        stamp(constraints, width, height, px + (x - px) * t, py + (y - py) * t, radius, code);
+      }
+    }
+  }
+
+  return constraints;
+};
+
+// Forces the painted pixels in place. Forced shadow keeps its keyed alpha but can never become object.
+export const applyStrokes = (
+  strokes: MaskStroke[],
+  alphaRaw: Uint8Array,
+  objectMask: Uint8Array,
+  shadowMask: Uint8Array,
+  width: number,
+  height: number,
+  objectThreshold: number
+): void => {
+  const constraints = rasterizeStrokes(strokes, width, height);
+
+  for (let i = 0; i < constraints.length; i++) {
+    switch (constraints[i]) {
+      case 1:
+        objectMask[i] = 1;
+        shadowMask[i] = 0;
+        alphaRaw[i] = 255;
+        break;
+      case 2:
+        objectMask[i] = 0;
+        shadowMask[i] = 1;
+        alphaRaw[i] = Math.min(alphaRaw[i], objectThreshold - 1);
+        break;
+      case 3:
+        objectMask[i] = 0;
+        shadowMask[i] = 0;
+        alphaRaw[i] = 0;
+        break;
+    }
+  }
+};
@@ -0,0 +1,78 @@
+import { RawImage } from '../types';
+
+// EXIF orientation (TIFF tag 274): how the stored pixels must be transformed for display.
+// 1 = as stored, 2 = mirrored, 3 = rotated 180, 4 = flipped, 5 = transposed, 6 = rotated 90 clockwise,
+// 7 = transversed, 8 = rotated 90 counter-clockwise.
+
+const ORIENTATION_TAG = 274;
+
+// Orientation entry of a TIFF IFD starting at `ifdOffset` (relative to `tiff`), or 1 without one
+export const readIfdOrientation = (view: DataView, tiff: number, ifdOffset: number, littleEndian: boolean): number => {
+  const start = tiff + ifdOffset;
+  if (start + 2 > view.byteLength) return 1;
+  const count = view.getUint16(start, littleEndian);
+  for (let e = 0; e < count; e++) {
+    const entry = start + 2 + e * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, littleEndian) !== ORIENTATION_TAG) continue;
+    const value = view.getUint16(entry + 8, littleEndian);
+    return value >= 1 && value <= 8 ? value : 1;
+  }
+  return 1;
+};
+
+// Orientation stored in a JPEG's Exif segment, or 1 when there is none
+export const readJpegOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Start of scan: no metadata after this point
+    if (marker === 0xda) break;
+    // APP1 "Exif\0\0" followed by a TIFF header
+    if (marker === 0xe1 && offset + 10 + 8 <= bytes.length
+      && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      return readIfdOrientation(view, tiff, view.getUint32(tiff + 4, littleEndian), littleEndian);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Applies an orientation to decoded pixels, so the result is upright
+export const applyOrientation = (image: RawImage, orientation: number): RawImage => {
+  if (orientation <= 1 || orientation > 8) return image;
+  const { width: w, height: h, data } = image;
+  const swap = orientation >= 5;
+  const outW = swap ? h : w;
+  const outH = swap ? w : h;
+  const out = new Uint8ClampedArray(data.length);
+
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      let sx: number;
+      let sy: number;
+      switch (orientation) {
+        case 2: sx = w - 1 - x; sy = y; break;
+        case 3: sx = w - 1 - x; sy = h - 1 - y; break;
+        case 4: sx = x; sy = h - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = h - 1 - x; break;
+        case 7: sx = w - 1 - y; sy = h - 1 - x; break;
+        default: sx = w - 1 - y; sy = x; break; // 8
+      }
+      const src = (sy * w + sx) * 4;
+      const dst = (y * outW + x) * 4;
+      out[dst] = data[src];
+      out[dst + 1] = data[src + 1];
+      out[dst + 2] = data[src + 2];
+      out[dst + 3] = data[src + 3];
+    }
+  }
+  return { width: outW, height: outH, data: out };
+};
@@ -0,0 +1,58 @@
+import { ExportSettings, RawImage } from '../types';
+import { OUTPUT_FORMATS } from '../constants';
+import { encodePng } from './pngEncoder';
+import { setWebpDpi } from './webpMetadata';
+
+// Encodes pipeline output according to the export settings. PNG goes through the JS encoder;
+// WebP and AVIF need the browser's canvas encoder, which the caller provides (worker or main thread).
+// Premultiplied alpha is PNG only: the canvas un-premultiplies and re-premultiplies what it is given,
+// which rounds away the low-alpha edge values the option is meant to keep.
+
+export type CanvasEncoder = (image: RawImage, type: string, quality?: number) => Promise<Blob>;
+
+// RGB scaled by alpha, rounded. Fully transparent pixels become black.
+export const premultiplyAlpha = (image: RawImage): RawImage => {
+  const data = new Uint8ClampedArray(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    if (a === 255) continue;
+    data[i] = Math.round((data[i] * a) / 255);
+    data[i + 1] = Math.round((data[i + 1] * a) / 255);
+    data[i + 2] = Math.round((data[i + 2] * a) / 255);
+  }
+  return { width: image.width, height: image.height, data };
+};
+
+const hasTransparency = ({ data }: RawImage) => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+};
+
+export const encodeOutput = async (
+  source: RawImage,
+  settings: ExportSettings,
+  canvasEncode: CanvasEncoder
+): Promise<Blob> => {
+  const { mime, label } = OUTPUT_FORMATS[settings.format];
+
+  if (settings.format === 'png') {
+    const image = settings.premultipliedAlpha ? premultiplyAlpha(source) : source;
+    return new Blob([encodePng(image, { level: settings.pngCompression, bitDepth: settings.bitDepth, dpi: settings.dpi })], { type: mime });
+  }
+
+  // Chromium encodes WebP losslessly at quality 1.0
+  const quality = settings.format === 'webp-lossless' ? 1 : settings.quality / 100;
+  const blob = await canvasEncode(source, mime, quality);
+  // Unsupported types silently fall back to PNG
+  if (blob.type !== mime) {
+    throw new Error(`This browser cannot encode ${label}`);
+  }
+
+  if (mime === 'image/webp' && settings.dpi > 0) {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    return new Blob([setWebpDpi(bytes, source.width, source.height, hasTransparency(source), settings.dpi)], { type: mime });
+  }
+  return blob;
+};
@@ -0,0 +1,289 @@
+import { AlgorithmParams, BackgroundModel, PipelineMasks, PipelineOptions, PipelineResult, RawImage } from '../types';
+import { computeDistanceMap } from './distanceTransform';
+import { createColorDistance } from './colorDistance';
+import { cleanupMasks } from './connectedComponents';
+import { applyStrokes } from './maskConstraints';
+import { constantBackground, estimateBackground, evaluateBackground } from './backgroundEstimation';
+import { planLayout, renderLayout } from './canvasLayout';
+import { mergeSyntheticShadow, renderSyntheticShadow } from './syntheticShadow';
+
+// Side of the square tiles the distance-based steps (shave, feather) and everything after them run in.
+// Tiles bound the scratch memory of those steps regardless of the image size.
+export const TILE_SIZE = 1024;
+
+// --- 1. Detect Background Color ---
+// Either a robust fit over the border band (constant color or smooth gradient), or the manual key
+const detectBackground = (input: RawImage, params: AlgorithmParams): BackgroundModel =>
+  params.autoDetectBg
+    ? estimateBackground(input, params.borderBand, params.bgModel)
+    : constantBackground(params.manualBgColor, input.width, input.height);
+
+// Step 2a: every pixel's color distance to the background key, streamed to `visit` rather than
+// stored, so no full-size float buffer is needed
+const forEachKeyDistance = (
+  input: RawImage,
+  params: AlgorithmParams,
+  background: BackgroundModel,
+  visit: (i: number, dist: number) => void
+) => {
+  const { width: w, height: h, data } = input;
+  const size = w * h;
+  const [keyR, keyG, keyB] = background.color;
+  const perPixelKey = background.type !== 'constant';
+  const key = [keyR, keyG, keyB];
+
+  // A manual key can be a set of samples; each pixel uses its distance to the nearest one.
+  // One distance function per sample so each keeps its cached key conversion.
+  const extraKeys = params.autoDetectBg ? [] : params.extraKeyColors;
+  const extraDistances = extraKeys.map(() => createColorDistance(params.colorMetric));
+
+  const colorDistance = createColorDistance(params.colorMetric);
+  for (let i = 0; i < size; i++) {
+    const idx = i * 4;
+    const r = data[idx];
+    const g = data[idx + 1];
+    const b = data[idx + 2];
+    if (perPixelKey) evaluateBackground(background, i % w, (i / w) | 0, key);
+    let d = colorDistance(r, g, b, key);
+    for (let k = 0; k < extraKeys.length; k++) {
+      d = Math.min(d, extraDistances[k](r, g, b, extraKeys[k]));
+    }
+    visit(i, d);
+  }
+};
+
+const maxKeyDistance = (input: RawImage, params: AlgorithmParams, background: BackgroundModel): number => {
+  let maxDist = 0;
+  forEachKeyDistance(input, params, background, (_, d) => {
+    if (d > maxDist) maxDist = d;
+  });
+  return maxDist;
+};
+
+// Largest key distance in the image. Used to share one normalization across a batch (toleranceMode 'batch').
+export const measureKeyDistance = (input: RawImage, params: AlgorithmParams): number =>
+  maxKeyDistance(input, params, detectBackground(input, params));
+
+// Step 2b: keyed alpha of a normalized key distance. Transparent up to `opaqueDistNorm` (background),
+// opaque beyond `clearDistNorm`, a linear ramp in between (mask_fade) that becomes the shadow.
+export const rampAlpha = (distNorm: number, opaqueDistNorm: number, clearDistNorm: number): number => {
+  if (distNorm <= opaqueDistNorm) return 0;
+  if (distNorm > clearDistNorm) return 255;
+  return Math.floor(255 * ((distNorm - opaqueDistNorm) / (clearDistNorm - opaqueDistNorm)));
+};
+
+// Full-frame buffers the tiles read from and write to
+interface TileContext {
+  input: RawImage;
+  params: AlgorithmParams;
+  alphaRaw: Uint8Array;
+  objectMask: Uint8Array;
+  shadowMask: Uint8Array;
+  halo: number; // Extra pixels around each tile so the distance transforms see every pixel they depend on
+  out: Uint8ClampedArray; // RGBA output
+  objectAlpha: Uint8Array | null; // Final alpha of object pixels, for the synthetic shadow
+  masks: Pick<PipelineMasks, 'shavedObj' | 'objectFeather' | 'alpha'> | null; // Only with includeMasks
+}
+
+// Steps 4 to 8 for the tile [x0, x1) x [y0, y1). Shave and feather only look shavePx + featherWidth
+// pixels away, so with a halo that wide the tile comes out exactly as the whole frame would.
+const renderTile = (ctx: TileContext, x0: number, y0: number, x1: number, y1: number) => {
+  const { input, params, alphaRaw, objectMask, shadowMask, halo, out, objectAlpha, masks } = ctx;
+  const w = input.width;
+  const data = input.data;
+
+  const rx0 = Math.max(0, x0 - halo);
+  const ry0 = Math.max(0, y0 - halo);
+  const rw = Math.min(w, x1 + halo) - rx0;
+  const rh = Math.min(input.height, y1 + halo) - ry0;
+  const regionSize = rw * rh;
+
+  const region = new Uint8Array(regionSize);
+  for (let y = 0; y < rh; y++) {
+    const src = (ry0 + y) * w + rx0;
+    region.set(objectMask.subarray(src, src + rw), y * rw);
+  }
+
+  // --- 4. Shave (Erosion) ---
+  let shavedObj = region;
+  if (params.shavePx > 0) {
+    // Standard Shave: Shrink the object mask.
+    const distInside = computeDistanceMap(region, rw, rh, true, params.distanceMetric);
+    shavedObj = new Uint8Array(regionSize);
+    for (let j = 0; j < regionSize; j++) {
+      shavedObj[j] = distInside[j] > params.shavePx ? 1 : 0;
+    }
+  }
+
+  // --- 5. Feather ---
+  // Only run feathering if width > 0, otherwise the shaved object is the full opacity mask
+  let objectFeather: Float32Array | null = null;
+  if (params.featherWidth > 0) {
+    objectFeather = computeDistanceMap(shavedObj, rw, rh, true, params.distanceMetric);
+    for (let j = 0; j < regionSize; j++) {
+      objectFeather[j] = Math.min(1, Math.max(0, objectFeather[j] / params.featherWidth));
+    }
+  }
+
+  // --- 6-8. Final assembly, edge desaturation and output, fused per pixel ---
+  const boost = params.alphaBoost || 1.0;
+  const keepShadow = params.outputMode !== 'cutout';
+  // 'shadow' renders everything as neutral dark; the other modes keep the (edge-desaturated) object colors
+  const keepObjectColor = params.outputMode !== 'shadow';
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * w + x;
+      const j = (y - ry0) * rw + (x - rx0);
+      const idx = i * 4;
+      const inObject = shavedObj[j] === 1;
+      const feather = objectFeather ? objectFeather[j] : (inObject ? 1.0 : 0.0);
+
+      // 6. Inside the object: feathered keyed alpha. Outside: shadow alpha, or background
+      let finalA = 0;
+      if (inObject) {
+        finalA = alphaRaw[i] * feather;
+      } else if (shadowMask[i] === 1 && keepShadow) {
+        finalA = alphaRaw[i];
+      }
+      // Apply Alpha Boost (Denser shadows)
+      // Simulate "merging duplicate layers" by multiplying alpha
+      if (finalA > 0) finalA = Math.min(255, finalA * boost);
+      const a = finalA | 0;
+
+      const r = data[idx];
+      const g = data[idx + 1];
+      const b = data[idx + 2];
+      if (keepObjectColor && inObject) {
+        // 7. Edge desaturation (only object pixels keep their colors, so only they need it)
+        if (a > 0 && a < 255) {
+          const gray = 0.2989 * r + 0.5870 * g + 0.1140 * b;
+          out[idx] = (r * (1 - params.edgeDesat) + gray * params.edgeDesat) * params.edgeDark;
+          out[idx + 1] = (g * (1 - params.edgeDesat) + gray * params.edgeDesat) * params.edgeDark;
+          out[idx + 2] = (b * (1 - params.edgeDesat) + gray * params.edgeDesat) * params.edgeDark;
+        } else {
+          out[idx] = r;
+          out[idx + 1] = g;
+          out[idx + 2] = b;
+        }
+      } else {
+        // 8. Use original RGB but darkened globally
+        const darkGray = (0.2989 * r + 0.5870 * g + 0.1140 * b) * params.globalDarkFactor;
+        out[idx] = darkGray;
+        out[idx + 1] = darkGray;
+        out[idx + 2] = darkGray;
+      }
+      out[idx + 3] = a;
+
+      if (objectAlpha && inObject) objectAlpha[i] = a;
+      if (masks) {
+        masks.shavedObj[i] = shavedObj[j];
+        masks.objectFeather[i] = feather;
+        masks.alpha[i] = a;
+      }
+    }
+  }
+};
+
+// Runs the full ShadowCast pipeline on raw RGBA pixels.
+// Pure and DOM-free, so the exact same algorithm runs in the browser, in workers, in Node and in tests.
+// Full-size buffers are one byte per pixel per mask plus the output; mask cleanup adds one bit per
+// pixel (see cleanupMasks) and the distance-based steps run in tiles (see renderTile).
+// options.signal is checked between stages and tiles; an abort throws the signal's reason.
+export const runPipeline = (
+  input: RawImage,
+  params: AlgorithmParams,
+  options: PipelineOptions = {}
+): PipelineResult => {
+  const w = input.width;
+  const h = input.height;
+  const size = w * h;
+  const { signal } = options;
+
+  const background = detectBackground(input, params);
+  signal?.throwIfAborted();
+
+  // Relative: normalize by this image's largest distance. Absolute: tolerances are in fixed metric units.
+  // Batch: normalize by the largest distance across the whole batch (falls back to relative without one).
+  // Only the relative case needs an extra pass over the image to find that distance.
+  const normalizer = params.toleranceMode === 'absolute'
+    ? 255
+    : params.toleranceMode === 'batch' && options.normalization !== undefined
+      ? options.normalization
+      : maxKeyDistance(input, params, background);
+  const distMaxDiv = normalizer + 1e-6;
+  const opaqueDistNorm = params.colorTolerance / 255.0;
+  const clearDistNorm = (params.colorTolerance * params.fadeStrength) / 255.0;
+
+  // --- 2 and 3. RAW Alpha (Shadow-friendly), split into object vs shadow in the same pass ---
+  const alphaRaw = new Uint8Array(size); // Equivalent to alpha_raw
+  const objectMask = new Uint8Array(size);
+  const shadowMask = new Uint8Array(size); // 0 or 1
+  const keyDistance = options.includeMasks ? new Float32Array(size) : null;
+
+  forEachKeyDistance(input, params, background, (i, d) => {
+    if (keyDistance) keyDistance[i] = d;
+    const a = rampAlpha(d / distMaxDiv, opaqueDistNorm, clearDistNorm);
+    alphaRaw[i] = a;
+    if (a >= params.objectThreshold) objectMask[i] = 1;
+    else if (a > 0) shadowMask[i] = 1;
+  });
+
+  signal?.throwIfAborted();
+
+  // --- 3b. Connected-Component Cleanup (specks, holes, main subject) ---
+  cleanupMasks(alphaRaw, objectMask, shadowMask, w, h, params);
+
+  // --- 3c. Manual Refinement (brush strokes are hard constraints) ---
+  if (options.strokes && options.strokes.length > 0) {
+    applyStrokes(options.strokes, alphaRaw, objectMask, shadowMask, w, h, params.objectThreshold);
+  }
+
+  // --- 4-8. Shave, feather, final assembly and output, tile by tile ---
+  const halo = (params.shavePx > 0 ? Math.ceil(params.shavePx) + 1 : 0)
+    + (params.featherWidth > 0 ? Math.ceil(params.featherWidth) + 1 : 0);
+  const tiles: TileContext = {
+    input,
+    params,
+    alphaRaw,
+    objectMask,
+    shadowMask,
+    halo,
+    out: new Uint8ClampedArray(size * 4),
+    objectAlpha: params.syntheticShadow !== 'none' ? new Uint8Array(size) : null,
+    masks: options.includeMasks
+      ? { shavedObj: new Uint8Array(size), objectFeather: new Float32Array(size), alpha: new Uint8Array(size) }
+      : null,
+  };
+  const tileSize = options.tileSize ?? TILE_SIZE;
+  for (let y0 = 0; y0 < h; y0 += tileSize) {
+    for (let x0 = 0; x0 < w; x0 += tileSize) {
+      signal?.throwIfAborted();
+      renderTile(tiles, x0, y0, Math.min(w, x0 + tileSize), Math.min(h, y0 + tileSize));
+    }
+  }
+
+  // --- 8b. Synthetic Shadow (cast by the final object alpha), blended under the output ---
+  const syntheticShadow = tiles.objectAlpha && renderSyntheticShadow(tiles.objectAlpha, w, h, params);
+  tiles.objectAlpha = null;
+  signal?.throwIfAborted();
+  const unshadowed: RawImage = { width: w, height: h, data: tiles.out };
+  // Merged in place unless the caller wants the shadow separately
+  const merged = syntheticShadow
+    ? mergeSyntheticShadow(unshadowed, syntheticShadow, !options.separateShadow)
+    : unshadowed;
+
+  // --- 9. Catalog Layout (auto-crop, fixed canvas, padding) ---
+  // Planned on the merged output so the crop includes the synthetic shadow either way
+  const layout = planLayout(merged, params);
+  let image = options.separateShadow ? unshadowed : merged;
+  if (layout && !options.skipLayout) {
+    image = renderLayout(image, layout, params.resampling);
+  }
+
+  const result: PipelineResult = { image, background, layout };
+  if (tiles.masks && keyDistance) {
+    result.masks = { keyDistance, alphaRaw, objectMask, shadowMask, ...tiles.masks, syntheticShadow };
+  }
+  return result;
+};
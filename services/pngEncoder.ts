@@ -0,0 +1,108 @@
+import { deflate } from 'pako';
+import { RawImage } from '../types';
+
+// Pure JS PNG encoder (RGBA, 8 or 16 bits per channel). Used instead of canvas.toBlob so the
+// compression level, bit depth and DPI can be chosen, and straight alpha survives byte-exact
+// (canvas round-trips pixels through premultiplied storage).
+
+export interface PngEncodeOptions {
+  level?: number; // zlib compression level, 0 (store) to 9 (smallest)
+  bitDepth?: 8 | 16;
+  dpi?: number; // Written as a pHYs chunk when > 0
+}
+
+const INCHES_PER_METER = 39.3701;
+
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  CRC_TABLE[n] = c >>> 0;
+}
+
+const crc32 = (bytes: Uint8Array, start: number, end: number) => {
+  let c = 0xffffffff;
+  for (let i = start; i < end; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out, 4, 8 + data.length));
+  return out;
+};
+
+// Filters every row with "Up" (None for the first): cheap, and compresses smooth alpha ramps
+// and flat shadows well.
+const filterScanlines = (image: RawImage, bitDepth: 8 | 16): Uint8Array => {
+  const { width, height, data } = image;
+  const bytesPerSample = bitDepth / 8;
+  const stride = width * 4 * bytesPerSample;
+  const raw = new Uint8Array(height * (stride + 1));
+  let prev: Uint8Array | null = null;
+  const row = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const src = y * width * 4;
+    if (bitDepth === 8) {
+      row.set(data.subarray(src, src + width * 4));
+    } else {
+      // 8 -> 16 bit by byte replication (v * 257), big-endian
+      for (let i = 0; i < width * 4; i++) {
+        row[i * 2] = data[src + i];
+        row[i * 2 + 1] = data[src + i];
+      }
+    }
+
+    const out = y * (stride + 1);
+    raw[out] = prev ? 2 : 0; // Up, or None for the first row
+    for (let i = 0; i < stride; i++) {
+      raw[out + 1 + i] = prev ? (row[i] - prev[i]) & 0xff : row[i];
+    }
+    prev = prev ?? new Uint8Array(stride);
+    prev.set(row);
+  }
+  return raw;
+};
+
+export const encodePng = (image: RawImage, options: PngEncodeOptions = {}): Uint8Array<ArrayBuffer> => {
+  const bitDepth = options.bitDepth ?? 8;
+  const level = Math.min(9, Math.max(0, Math.round(options.level ?? 6))) as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, image.width);
+  ihdrView.setUint32(4, image.height);
+  ihdr[8] = bitDepth;
+  ihdr[9] = 6; // RGBA
+  // Compression, filter and interlace methods stay 0
+
+  const chunks = [chunk('IHDR', ihdr)];
+
+  if (options.dpi && options.dpi > 0) {
+    const phys = new Uint8Array(9);
+    const physView = new DataView(phys.buffer);
+    const perMeter = Math.round(options.dpi * INCHES_PER_METER);
+    physView.setUint32(0, perMeter);
+    physView.setUint32(4, perMeter);
+    phys[8] = 1; // Unit: meter
+    chunks.push(chunk('pHYs', phys));
+  }
+
+  chunks.push(chunk('IDAT', deflate(filterScanlines(image, bitDepth), { level })));
+  chunks.push(chunk('IEND', new Uint8Array(0)));
+
+  const signature = [137, 80, 78, 71, 13, 10, 26, 10];
+  const out = new Uint8Array(signature.length + chunks.reduce((sum, c) => sum + c.length, 0));
+  out.set(signature, 0);
+  let offset = signature.length;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+};
@@ -0,0 +1,138 @@
+import { AlgorithmParams, BooleanParamKey, ChoiceParamKey, NumericParamKey, ParamOverrides, ParamPreset, PresetFile } from '../types';
+import { DEFAULT_PARAMS, PARAM_CHOICES, PARAM_RANGES, PARAM_TOGGLES, PRESET_FILE_VERSION, PRESET_STORAGE_KEY } from '../constants';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const sanitizeColor = (key: string, color: unknown): [number, number, number] => {
+  if (!Array.isArray(color) || color.length !== 3 || !color.every(c => typeof c === 'number' && Number.isFinite(c))) {
+    throw new Error(`"${key}" must be an [r, g, b] array`);
+  }
+  return [
+    clamp(Math.round(color[0]), 0, 255),
+    clamp(Math.round(color[1]), 0, 255),
+    clamp(Math.round(color[2]), 0, 255),
+  ];
+};
+
+// Validates untrusted params (e.g. from an imported file).
+// Wrong types are rejected, out-of-range numbers are clamped and missing fields fall back to defaults.
+// Canvas sizes above the maximum are rejected too: shrinking them would silently change the output size.
+export const sanitizeParams = (raw: unknown): AlgorithmParams => {
+  if (!isRecord(raw)) {
+    throw new Error('Preset params must be an object');
+  }
+
+  const params: AlgorithmParams = { ...DEFAULT_PARAMS };
+
+  for (const key of Object.keys(PARAM_RANGES) as NumericParamKey[]) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`"${key}" must be a number`);
+    }
+    const { min, max } = PARAM_RANGES[key];
+    if ((key === 'canvasWidth' || key === 'canvasHeight') && value > max) {
+      throw new Error(`"${key}" must be at most ${max} px`);
+    }
+    params[key] = clamp(value, min, max);
+  }
+
+  for (const key of Object.keys(PARAM_CHOICES) as ChoiceParamKey[]) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    const allowed = PARAM_CHOICES[key].options.map(o => o.value);
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      throw new Error(`"${key}" must be one of ${allowed.join(', ')}`);
+    }
+    Object.assign(params, { [key]: value });
+  }
+
+  for (const key of Object.keys(PARAM_TOGGLES) as BooleanParamKey[]) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') {
+      throw new Error(`"${key}" must be true or false`);
+    }
+    params[key] = value;
+  }
+
+  if (raw.manualBgColor !== undefined) {
+    params.manualBgColor = sanitizeColor('manualBgColor', raw.manualBgColor);
+  }
+
+  if (raw.extraKeyColors !== undefined) {
+    if (!Array.isArray(raw.extraKeyColors)) {
+      throw new Error('"extraKeyColors" must be an array of [r, g, b] arrays');
+    }
+    params.extraKeyColors = raw.extraKeyColors.map(color => sanitizeColor('extraKeyColors', color));
+  }
+
+  return params;
+};
+
+const sanitizePreset = (raw: unknown): ParamPreset => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || raw.name.trim() === '') {
+    throw new Error('Each preset needs a non-empty "name"');
+  }
+  return { name: raw.name.trim(), params: sanitizeParams(raw.params) };
+};
+
+export const parsePresetFile = (json: string): ParamPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(data) || typeof data.version !== 'number') {
+    throw new Error('Missing preset file version');
+  }
+  if (data.version > PRESET_FILE_VERSION) {
+    throw new Error(`Preset file version ${data.version} is newer than supported (${PRESET_FILE_VERSION})`);
+  }
+  if (!Array.isArray(data.presets)) {
+    throw new Error('Missing "presets" list');
+  }
+
+  return data.presets.map(sanitizePreset);
+};
+
+export const serializePresets = (presets: ParamPreset[]): string => {
+  const file: PresetFile = {
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, params }) => ({ name, params })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// User presets are persisted in localStorage in the same format as exported files
+export const loadSavedPresets = (): ParamPreset[] => {
+  const stored = localStorage.getItem(PRESET_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return parsePresetFile(stored);
+  } catch (error) {
+    console.error('Ignoring corrupt saved presets', error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: ParamPreset[]) => {
+  localStorage.setItem(PRESET_STORAGE_KEY, serializePresets(presets));
+};
+
+export const paramsEqual = (a: AlgorithmParams, b: AlgorithmParams): boolean =>
+  (Object.keys(a) as (keyof AlgorithmParams)[]).every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+
+// Batch preset with one image's overrides applied
+export const resolveParams = (preset: AlgorithmParams, overrides: ParamOverrides): AlgorithmParams =>
+  ({ ...preset, ...overrides });
+
+// Overridden keys that actually differ from the preset
+export const activeOverrides = (preset: AlgorithmParams, overrides: ParamOverrides): (keyof AlgorithmParams)[] =>
+  (Object.keys(overrides) as (keyof AlgorithmParams)[])
+    .filter(key => JSON.stringify(overrides[key]) !== JSON.stringify(preset[key]));
@@ -0,0 +1,37 @@
+import { AlgorithmParams, MaskStroke } from '../types';
+
+// Fast previews: the pipeline runs on a downscaled copy of the image, with every size-dependent
+// parameter scaled to match, so the preview looks like a small version of the full-resolution result.
+
+// Downscale factor bringing the longest side to at most maxEdge (1 = already small enough)
+export const previewScale = (width: number, height: number, maxEdge: number): number =>
+  Math.min(1, maxEdge / Math.max(width, height));
+
+// Lengths scale with `scale`, areas with its square. Canvas sizes are output pixels and scale too,
+// so a catalog layout keeps its proportions.
+export const scaleParams = (params: AlgorithmParams, scale: number): AlgorithmParams => {
+  if (scale === 1) return params;
+  const length = (v: number) => v * scale;
+  const pixels = (v: number) => (v > 0 ? Math.max(1, Math.round(v * scale)) : 0);
+  return {
+    ...params,
+    shavePx: length(params.shavePx),
+    featherWidth: length(params.featherWidth),
+    minSpeckArea: params.minSpeckArea * scale * scale,
+    maxHoleArea: params.maxHoleArea * scale * scale,
+    borderBand: Math.max(1, Math.round(params.borderBand * scale)),
+    canvasWidth: pixels(params.canvasWidth),
+    canvasHeight: pixels(params.canvasHeight),
+    canvasPadding: Math.round(params.canvasPadding * scale),
+    shadowDistance: length(params.shadowDistance),
+    shadowBlur: length(params.shadowBlur),
+  };
+};
+
+// Brush strokes are stored in source pixels
+export const scaleStrokes = (strokes: MaskStroke[], scale: number): MaskStroke[] =>
+  scale === 1 ? strokes : strokes.map(stroke => ({
+    ...stroke,
+    size: stroke.size * scale,
+    points: stroke.points.map(([x, y]) => [x * scale, y * scale] as [number, number]),
+  }));
@@ -0,0 +1,111 @@
+import { DebugLayer, RawImage, WorkerConvertRequest, WorkerRequest, WorkerResponse } from '../types';
+import { DEFAULT_EXPORT_SETTINGS } from '../constants';
+import { measureKeyDistance, runPipeline } from './pipeline';
+import { psdLayers, splitLayers } from './layers';
+import { encodePsd } from './psdWriter';
+import { encodePng } from './pngEncoder';
+import { encodeOutput } from './outputEncoder';
+import { previewScale, scaleParams, scaleStrokes } from './preview';
+import { renderDebugView } from './debugView';
+import { decodeTiff } from './tiffDecoder';
+
+const convert = ({ buffer }: WorkerConvertRequest) => {
+  try {
+    const png = encodePng(decodeTiff(buffer), { level: 1 }).buffer;
+    const response: WorkerResponse = { png };
+    self.postMessage(response, { transfer: [png] });
+  } catch (error) {
+    const response: WorkerResponse = { error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
+
+// Decodes, processes and re-encodes one image per message, entirely off the main thread.
+// 'measure' requests only report the image's key distance, for batch-wide normalization.
+// 'layers' requests return the object, shadow, synthetic shadow and matte layers plus a layered PSD.
+// 'debug' requests return false-color renderings of the pipeline intermediates and the raw alpha histogram.
+// 'process' and 'debug' requests with previewMaxEdge run on a downscaled copy with scaled parameters.
+// 'convert' requests re-encode a TIFF as PNG for intake; they do not run the pipeline.
+self.onmessage = async (event: MessageEvent<WorkerRequest | WorkerConvertRequest>) => {
+  if (event.data.task === 'convert') {
+    convert(event.data);
+    return;
+  }
+  const { task, buffer, type, normalization, output = DEFAULT_EXPORT_SETTINGS, previewMaxEdge } = event.data;
+
+  try {
+    // Upright pixels: EXIF orientation is applied on decode, as <img> does on the main thread
+    const bitmap = await createImageBitmap(new Blob([buffer], { type }), { imageOrientation: 'from-image' });
+    const scale = (task === 'process' || task === 'debug') && previewMaxEdge ? previewScale(bitmap.width, bitmap.height, previewMaxEdge) : 1;
+    const w = Math.max(1, Math.round(bitmap.width * scale));
+    const h = Math.max(1, Math.round(bitmap.height * scale));
+    const params = scaleParams(event.data.params, scale);
+    const strokes = event.data.strokes && scaleStrokes(event.data.strokes, scale);
+
+    const canvas = new OffscreenCanvas(w, h);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error("Could not get canvas context");
+    }
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, w, h);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, w, h);
+    // The pixels are copied out; release the canvas backing store before the pipeline allocates
+    canvas.width = canvas.height = 1;
+    if (task === 'measure') {
+      const response: WorkerResponse = { maxDist: measureKeyDistance({ width: w, height: h, data }, params) };
+      self.postMessage(response);
+      return;
+    }
+
+    if (task === 'debug') {
+      const debug = renderDebugView({ width: w, height: h, data }, params, { normalization, strokes });
+      const overlays = {} as Record<DebugLayer, ArrayBuffer>;
+      for (const layer of Object.keys(debug.overlays) as DebugLayer[]) {
+        overlays[layer] = encodePng(debug.overlays[layer], { level: 1 }).buffer;
+      }
+      const response: WorkerResponse = { overlays, histogram: debug.histogram, width: w, height: h, previewScale: scale };
+      self.postMessage(response, { transfer: Object.values(overlays) });
+      return;
+    }
+
+    if (task === 'layers') {
+      const { image, masks, layout } = runPipeline(
+        { width: w, height: h, data }, params, { normalization, strokes, includeMasks: true, skipLayout: true, separateShadow: true }
+      );
+      const layers = splitLayers(image, masks!, layout, params.resampling);
+      // Layers are always straight-alpha 8-bit PNG; compression and DPI follow the export settings
+      const encodeLayer = (layer: RawImage) => encodePng(layer, { level: output.pngCompression, dpi: output.dpi }).buffer;
+      const response: WorkerResponse = {
+        object: encodeLayer(layers.object),
+        shadow: encodeLayer(layers.shadow),
+        matte: encodeLayer(layers.matte),
+        synthetic: layers.synthetic && encodeLayer(layers.synthetic),
+        psd: encodePsd(layers.composite, psdLayers(layers)).buffer,
+      };
+      const transfer = [response.object, response.shadow, response.matte, response.psd];
+      if (response.synthetic) transfer.push(response.synthetic);
+      self.postMessage(response, { transfer });
+      return;
+    }
+
+    const { image, background, layout } = runPipeline({ width: w, height: h, data }, params, { normalization, strokes });
+    const blob = await encodeOutput(image, output, (pixels, mime, quality) => {
+      // The output canvas size differs from the source once the layout stage crops or fits
+      const target = new OffscreenCanvas(pixels.width, pixels.height);
+      const targetCtx = target.getContext('2d');
+      if (!targetCtx) throw new Error("Could not get canvas context");
+      targetCtx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+      return target.convertToBlob({ type: mime, quality });
+    });
+    const encoded = await blob.arrayBuffer();
+    const response: WorkerResponse = { encoded, format: output.format, width: image.width, height: image.height, background, layout, previewScale: scale };
+    self.postMessage(response, { transfer: [encoded] });
+  } catch (error) {
+    const response: WorkerResponse = { error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
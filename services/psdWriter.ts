@@ -0,0 +1,132 @@
+import { RawImage } from '../types';
+
+// Minimal layered Photoshop (PSD) writer: 8-bit RGB, full-canvas layers with transparency,
+// uncompressed channel data and a merged composite for readers that ignore layers.
+
+export interface PsdLayer {
+  name: string;
+  image: RawImage; // Same size as the document
+}
+
+// Photoshop limits version 1 (.psd) documents to 30000 px per side
+const MAX_PSD_SIZE = 30000;
+
+// Channel order inside each layer record: transparency first, then R, G, B
+const LAYER_CHANNELS: { id: number; offset: number }[] = [
+  { id: -1, offset: 3 },
+  { id: 0, offset: 0 },
+  { id: 1, offset: 1 },
+  { id: 2, offset: 2 },
+];
+
+class ByteWriter {
+  private bytes: Uint8Array;
+  private view: DataView;
+  offset = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u8(value: number) { this.view.setUint8(this.offset, value); this.offset += 1; }
+  u16(value: number) { this.view.setUint16(this.offset, value); this.offset += 2; }
+  i16(value: number) { this.view.setInt16(this.offset, value); this.offset += 2; }
+  u32(value: number) { this.view.setUint32(this.offset, value); this.offset += 4; }
+  i32(value: number) { this.view.setInt32(this.offset, value); this.offset += 4; }
+  ascii(text: string) { for (let i = 0; i < text.length; i++) this.u8(text.charCodeAt(i) & 0x7f); }
+  zeros(count: number) { this.offset += count; }
+
+  // One channel plane out of interleaved RGBA pixels
+  plane(data: Uint8ClampedArray, channelOffset: number) {
+    for (let i = channelOffset; i < data.length; i += 4) this.bytes[this.offset++] = data[i];
+  }
+
+  result() { return this.bytes; }
+}
+
+// Pascal string padded so that length byte + text is a multiple of 4
+const encodeName = (name: string) => {
+  const text = name.replace(/[^\x20-\x7e]/g, '_').slice(0, 255);
+  const padded = Math.ceil((text.length + 1) / 4) * 4;
+  return { text, padded };
+};
+
+// Layers are listed bottom to top
+export const encodePsd = (composite: RawImage, layers: PsdLayer[]): Uint8Array => {
+  const { width, height } = composite;
+  if (width > MAX_PSD_SIZE || height > MAX_PSD_SIZE) {
+    throw new Error(`PSD export supports at most ${MAX_PSD_SIZE} px per side`);
+  }
+  const planeSize = width * height;
+  const names = layers.map(l => encodeName(l.name));
+
+  // Layer records + per-channel image data, padded to an even length
+  const extraLength = (i: number) => 4 + 4 + names[i].padded; // mask data + blending ranges + name
+  const recordsLength = layers.reduce((sum, _, i) => sum + 16 + 2 + LAYER_CHANNELS.length * 6 + 12 + 4 + extraLength(i), 0);
+  const channelDataLength = layers.length * LAYER_CHANNELS.length * (2 + planeSize);
+  let layerInfoLength = 2 + recordsLength + channelDataLength;
+  layerInfoLength += layerInfoLength % 2;
+  const layerSectionLength = 4 + layerInfoLength + 4;
+
+  const total = 26 + 4 + 4 + 4 + layerSectionLength + 2 + 4 * planeSize;
+  const out = new ByteWriter(total);
+
+  // Header
+  out.ascii('8BPS');
+  out.u16(1); // Version
+  out.zeros(6);
+  out.u16(4); // Channels in the merged image (RGBA)
+  out.u32(height);
+  out.u32(width);
+  out.u16(8); // Bits per channel
+  out.u16(3); // RGB
+
+  out.u32(0); // Color mode data
+  out.u32(0); // Image resources
+
+  // Layer and mask information
+  out.u32(layerSectionLength);
+  out.u32(layerInfoLength);
+  const layerInfoStart = out.offset;
+  out.i16(-layers.length); // Negative: the merged image's first alpha channel is its transparency
+
+  layers.forEach((layer, i) => {
+    out.i32(0); // Top
+    out.i32(0); // Left
+    out.i32(height); // Bottom
+    out.i32(width); // Right
+    out.u16(LAYER_CHANNELS.length);
+    LAYER_CHANNELS.forEach(({ id }) => {
+      out.i16(id);
+      out.u32(2 + planeSize);
+    });
+    out.ascii('8BIM');
+    out.ascii('norm');
+    out.u8(255); // Opacity
+    out.u8(0); // Clipping
+    out.u8(0); // Flags
+    out.u8(0); // Filler
+    out.u32(extraLength(i));
+    out.u32(0); // Layer mask data
+    out.u32(0); // Blending ranges
+    out.u8(names[i].text.length);
+    out.ascii(names[i].text);
+    out.zeros(names[i].padded - 1 - names[i].text.length);
+  });
+
+  layers.forEach(layer => {
+    LAYER_CHANNELS.forEach(({ offset }) => {
+      out.u16(0); // Raw data
+      out.plane(layer.image.data, offset);
+    });
+  });
+  out.offset = layerInfoStart + layerInfoLength;
+  out.u32(0); // Global layer mask info
+
+  // Merged composite, planar R, G, B, A
+  out.u16(0);
+  [0, 1, 2, 3].forEach(offset => out.plane(composite.data, offset));
+
+  return out.result();
+};
@@ -0,0 +1,144 @@
+import { JobSummary, StoredJob, StoredQueuedFile, StoredResult, StoredSettings } from '../types';
+import { SESSION_DB_NAME, SESSION_DB_VERSION } from '../constants';
+
+// Client-side persistence of the session in IndexedDB. Files and outputs are stored as Blobs,
+// so nothing leaves the browser and nothing is re-encoded.
+//
+// Stores:
+// - settings: one StoredSettings record under SETTINGS_KEY
+// - queue: StoredQueuedFile by id (files waiting to be processed)
+// - jobs: StoredJob by id
+// - results: StoredResult by id, indexed by jobId
+
+type StoreName = 'settings' | 'queue' | 'jobs' | 'results';
+
+const SETTINGS_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(SESSION_DB_NAME, SESSION_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('settings');
+        db.createObjectStore('queue', { keyPath: 'id' });
+        db.createObjectStore('jobs', { keyPath: 'id' });
+        db.createObjectStore('results', { keyPath: 'id' }).createIndex('jobId', 'jobId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+const transact = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const loadSettings = (): Promise<StoredSettings | undefined> =>
+  transact(['settings'], 'readonly', tx => promisify(tx.objectStore('settings').get(SETTINGS_KEY)));
+
+export const saveSettings = (settings: StoredSettings): Promise<void> =>
+  transact(['settings'], 'readwrite', tx => { tx.objectStore('settings').put(settings, SETTINGS_KEY); });
+
+export const loadQueue = async (): Promise<StoredQueuedFile[]> => {
+  const queue = await transact(['queue'], 'readonly', tx => promisify<StoredQueuedFile[]>(tx.objectStore('queue').getAll()));
+  return queue.sort((a, b) => a.position - b.position);
+};
+
+// Replaces the stored queue with `queue`
+export const saveQueue = (queue: StoredQueuedFile[]): Promise<void> =>
+  transact(['queue'], 'readwrite', tx => {
+    const store = tx.objectStore('queue');
+    store.clear();
+    queue.forEach(queued => store.put(queued));
+  });
+
+export const saveJob = (job: StoredJob): Promise<void> =>
+  transact(['jobs'], 'readwrite', tx => { tx.objectStore('jobs').put(job); });
+
+export const loadJob = (jobId: string): Promise<StoredJob | undefined> =>
+  transact(['jobs'], 'readonly', tx => promisify(tx.objectStore('jobs').get(jobId)));
+
+export const saveResult = (result: StoredResult): Promise<void> =>
+  transact(['results'], 'readwrite', tx => { tx.objectStore('results').put(result); });
+
+// Whether a failed write was refused because the origin ran out of storage
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// Results of one job, in the order they were queued
+export const loadJobResults = async (jobId: string): Promise<StoredResult[]> => {
+  const results = await transact(['results'], 'readonly', tx =>
+    promisify<StoredResult[]>(tx.objectStore('results').index('jobId').getAll(jobId)));
+  return results.sort((a, b) => a.position - b.position);
+};
+
+// Every job with totals over its results, most recent first. Jobs whose results all failed are omitted.
+export const listJobs = (): Promise<JobSummary[]> =>
+  transact(['jobs', 'results'], 'readonly', async tx => {
+    const [jobs, results] = await Promise.all([
+      promisify<StoredJob[]>(tx.objectStore('jobs').getAll()),
+      promisify<StoredResult[]>(tx.objectStore('results').getAll()),
+    ]);
+    const summaries = new Map<string, JobSummary>(
+      jobs.map(job => [job.id, { ...job, fileNames: [], bytes: 0, updatedAt: job.createdAt }])
+    );
+    results.sort((a, b) => a.position - b.position).forEach(result => {
+      const summary = summaries.get(result.jobId);
+      if (!summary) return;
+      summary.fileNames.push(result.fileName);
+      summary.bytes += result.source.size + result.output.size;
+      summary.updatedAt = Math.max(summary.updatedAt, result.updatedAt);
+    });
+    return [...summaries.values()]
+      .filter(summary => summary.fileNames.length > 0)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  });
+
+export const deleteJob = (jobId: string): Promise<void> =>
+  transact(['jobs', 'results'], 'readwrite', async tx => {
+    tx.objectStore('jobs').delete(jobId);
+    const results = tx.objectStore('results');
+    const ids = await promisify(results.index('jobId').getAllKeys(jobId));
+    ids.forEach(id => results.delete(id));
+  });
+
+// Bytes used and available to this origin, when the browser reports them
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+};
+
+// Asks the browser not to evict the session under storage pressure (granted silently or ignored)
+export const requestPersistence = async (): Promise<void> => {
+  if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+    await navigator.storage.persist();
+  }
+};
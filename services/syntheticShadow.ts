@@ -0,0 +1,224 @@
+import { AlgorithmParams, RawImage } from '../types';
+
+// Synthetic shadows for subjects shot without one (e.g. on a lightbox). Both kinds are projections
+// of the final object mask onto the floor at the object's base line:
+// - contact: the bottom of the subject squashed into a thin, tight shadow where it touches the floor
+// - drop: the whole silhouette cast at an angle/distance, optionally sheared and flattened in perspective
+
+type ShadowParams = Pick<
+  AlgorithmParams,
+  'syntheticShadow' | 'shadowAngle' | 'shadowDistance' | 'shadowBlur' | 'shadowOpacity' | 'shadowSkew' | 'shadowFalloff'
+>;
+
+// Share of the object height (from the base up) that casts the contact shadow
+const CONTACT_BAND = 0.1;
+// Vertical squash of that band on the floor
+const CONTACT_SQUASH = 0.3;
+// Larger frames render the (soft) shadow on a downscaled mask and upsample it, bounding the float buffers
+const MAX_SHADOW_PIXELS = 4_000_000;
+
+// Bilinear sample of a coverage map, 0 outside the image
+const sample = (cover: Float32Array, w: number, h: number, x: number, y: number): number => {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+  let total = 0;
+  for (let j = 0; j < 2; j++) {
+    const yy = y0 + j;
+    if (yy < 0 || yy >= h) continue;
+    const wy = j === 0 ? 1 - fy : fy;
+    for (let i = 0; i < 2; i++) {
+      const xx = x0 + i;
+      if (xx < 0 || xx >= w) continue;
+      total += cover[yy * w + xx] * wy * (i === 0 ? 1 - fx : fx);
+    }
+  }
+  return total;
+};
+
+// One running-sum box pass along rows (horizontal) or columns; outside the image counts as 0
+const boxPass = (src: Float32Array, dst: Float32Array, w: number, h: number, r: number, horizontal: boolean) => {
+  const lines = horizontal ? h : w;
+  const len = horizontal ? w : h;
+  const step = horizontal ? 1 : w;
+  const norm = 1 / (2 * r + 1);
+  for (let line = 0; line < lines; line++) {
+    const base = horizontal ? line * w : line;
+    let acc = 0;
+    for (let k = 0; k <= Math.min(r, len - 1); k++) acc += src[base + k * step];
+    for (let k = 0; k < len; k++) {
+      dst[base + k * step] = acc * norm;
+      const add = k + r + 1;
+      const sub = k - r;
+      if (add < len) acc += src[base + add * step];
+      if (sub >= 0) acc -= src[base + sub * step];
+    }
+  }
+};
+
+// Three box passes per axis approximate a Gaussian spreading over roughly `radius` pixels (in place)
+const blur = (map: Float32Array, w: number, h: number, radius: number): Float32Array => {
+  const r = Math.ceil(radius / 3);
+  if (r <= 0) return map;
+  const temp = new Float32Array(map.length);
+  for (let pass = 0; pass < 3; pass++) {
+    boxPass(map, temp, w, h, r, true);
+    boxPass(temp, map, w, h, r, false);
+  }
+  return map;
+};
+
+// Projects the object onto the floor. Each destination pixel is mapped back to the silhouette:
+// its height above the (shifted) base line is stretched by `squash` and sheared by `skew`.
+const project = (
+  cover: Float32Array, w: number, h: number, baseY: number, objectHeight: number,
+  dx: number, dy: number, skew: number, squash: number, maxHeight: number, falloff: number
+): Float32Array => {
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const tDest = baseY + dy - y;
+    if (tDest < -1) continue; // Below the floor line
+    const t = Math.max(0, tDest) / squash;
+    if (t > maxHeight) continue;
+    // Falloff fades the shadow toward the projected top of the subject
+    const fade = 1 - falloff * Math.min(1, t / objectHeight);
+    const sy = baseY - t;
+    for (let x = 0; x < w; x++) {
+      const v = sample(cover, w, h, x - dx - skew * tDest, sy);
+      if (v > 0) out[y * w + x] = v * fade;
+    }
+  }
+  return out;
+};
+
+// Box-averages a mask down by an integer factor
+const downscaleMask = (mask: Uint8Array, w: number, h: number, factor: number, sw: number, sh: number): Uint8Array => {
+  const small = new Uint8Array(sw * sh);
+  for (let sy = 0; sy < sh; sy++) {
+    const yEnd = Math.min(h, (sy + 1) * factor);
+    for (let sx = 0; sx < sw; sx++) {
+      const xEnd = Math.min(w, (sx + 1) * factor);
+      let total = 0;
+      let count = 0;
+      for (let y = sy * factor; y < yEnd; y++) {
+        for (let x = sx * factor; x < xEnd; x++) {
+          total += mask[y * w + x];
+          count++;
+        }
+      }
+      small[sy * sw + sx] = Math.round(total / count);
+    }
+  }
+  return small;
+};
+
+// Bilinear upsample of a downscaled shadow back to w x h
+const upscaleMask = (small: Uint8Array, sw: number, sh: number, factor: number, w: number, h: number): Uint8Array => {
+  const cover = Float32Array.from(small);
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const sy = Math.min(sh - 1, Math.max(0, (y + 0.5) / factor - 0.5));
+    for (let x = 0; x < w; x++) {
+      const sx = Math.min(sw - 1, Math.max(0, (x + 0.5) / factor - 0.5));
+      out[y * w + x] = Math.round(sample(cover, sw, sh, sx, sy));
+    }
+  }
+  return out;
+};
+
+// Shadow alpha (0-255) cast by `objectAlpha` (the final alpha of object pixels, 0 elsewhere),
+// or null when the stage is off or there is no object
+export const renderSyntheticShadow = (
+  objectAlpha: Uint8Array,
+  w: number,
+  h: number,
+  params: ShadowParams
+): Uint8Array | null => {
+  if (params.syntheticShadow === 'none' || params.shadowOpacity <= 0) return null;
+
+  if (w * h > MAX_SHADOW_PIXELS) {
+    const factor = Math.ceil(Math.sqrt((w * h) / MAX_SHADOW_PIXELS));
+    const sw = Math.ceil(w / factor);
+    const sh = Math.ceil(h / factor);
+    const small = renderSyntheticShadow(downscaleMask(objectAlpha, w, h, factor, sw, sh), sw, sh, {
+      ...params,
+      shadowDistance: params.shadowDistance / factor,
+      shadowBlur: params.shadowBlur / factor,
+    });
+    return small && upscaleMask(small, sw, sh, factor, w, h);
+  }
+
+  const size = w * h;
+  const cover = new Float32Array(size);
+  let minY = h;
+  let maxY = -1;
+  for (let i = 0; i < size; i++) {
+    if (objectAlpha[i] === 0) continue;
+    cover[i] = objectAlpha[i] / 255;
+    const y = (i / w) | 0;
+    if (y < minY) minY = y;
+    maxY = y;
+  }
+  if (maxY < 0) return null;
+
+  const baseY = maxY;
+  const objectHeight = maxY - minY + 1;
+  const combined = new Float32Array(size);
+
+  if (params.syntheticShadow === 'contact' || params.syntheticShadow === 'both') {
+    const band = Math.max(1, objectHeight * CONTACT_BAND);
+    const contact = blur(
+      project(cover, w, h, baseY, band, 0, 0, 0, CONTACT_SQUASH, band, params.shadowFalloff),
+      w, h, Math.max(2, params.shadowBlur / 4)
+    );
+    for (let i = 0; i < size; i++) combined[i] = Math.min(1, contact[i]);
+  }
+
+  if (params.syntheticShadow === 'drop' || params.syntheticShadow === 'both') {
+    const angle = (params.shadowAngle * Math.PI) / 180;
+    // Skew lays the shadow down: the shear grows with it and the cast silhouette flattens
+    const squash = 1 / (1 + Math.abs(params.shadowSkew));
+    const drop = blur(
+      project(
+        cover, w, h, baseY, objectHeight,
+        Math.cos(angle) * params.shadowDistance, Math.sin(angle) * params.shadowDistance,
+        params.shadowSkew, squash, objectHeight, params.shadowFalloff
+      ),
+      w, h, params.shadowBlur
+    );
+    // Union of the two shadows, like stacking two layers
+    for (let i = 0; i < size; i++) combined[i] = 1 - (1 - combined[i]) * (1 - Math.min(1, drop[i]));
+  }
+
+  const alpha = new Uint8Array(size);
+  for (let i = 0; i < size; i++) alpha[i] = Math.round(combined[i] * params.shadowOpacity * 255);
+  return alpha;
+};
+
+// The synthetic shadow as a black RGBA layer
+export const shadowLayer = (shadow: Uint8Array, width: number, height: number): RawImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < shadow.length; i++) data[i * 4 + 3] = shadow[i];
+  return { width, height, data };
+};
+
+// Composites `image` over the (black) synthetic shadow. Preserved shadows and feathered object edges
+// blend with it, so the two shadows read as one.
+export const mergeSyntheticShadow = (image: RawImage, shadow: Uint8Array, inPlace: boolean = false): RawImage => {
+  const { width, height, data } = image;
+  const out = inPlace ? data : data.slice();
+  for (let i = 0; i < shadow.length; i++) {
+    const idx = i * 4;
+    const s = shadow[i] / 255;
+    if (s === 0) continue;
+    const a = data[idx + 3] / 255;
+    const outA = a + s * (1 - a);
+    const k = a / outA;
+    out[idx] = data[idx] * k;
+    out[idx + 1] = data[idx + 1] * k;
+    out[idx + 2] = data[idx + 2] * k;
+    out[idx + 3] = Math.round(outA * 255);
+  }
+  return { width, height, data: out };
+};
@@ -0,0 +1,345 @@
+import { inflate } from 'pako';
+import { RawImage } from '../types';
+import { applyOrientation } from './orientation';
+
+// Pure JS baseline TIFF decoder, for the one common input format browsers do not decode themselves.
+// Covers what cameras, scanners and image editors usually write: strips or tiles, chunky or planar
+// samples, 8 or 16 bits, gray / RGB / palette / CMYK with optional alpha, uncompressed, PackBits, LZW
+// or Deflate, with or without the horizontal predictor. Only the first image (IFD) is decoded, and
+// 16-bit samples are reduced to 8 bits like the rest of the pipeline input.
+
+const TAG = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  orientation: 274,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339,
+};
+
+const COMPRESSION = { none: 1, lzw: 5, deflate: 8, packBits: 32773, deflateLegacy: 32946 };
+
+const PHOTOMETRIC = { whiteIsZero: 0, blackIsZero: 1, rgb: 2, palette: 3, cmyk: 5 };
+
+// Bytes per value of each TIFF field type (unknown types are skipped)
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+type Ifd = Map<number, number[]>;
+
+const readIfd = (view: DataView, offset: number, le: boolean): Ifd => {
+  if (offset + 2 > view.byteLength) throw new Error('Truncated TIFF');
+  const count = view.getUint16(offset, le);
+  const ifd: Ifd = new Map();
+  for (let e = 0; e < count; e++) {
+    const entry = offset + 2 + e * 12;
+    if (entry + 12 > view.byteLength) throw new Error('Truncated TIFF');
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const start = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+    if (start + size * n > view.byteLength) throw new Error('Truncated TIFF');
+
+    const values = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      const p = start + i * size;
+      switch (type) {
+        case 3: values[i] = view.getUint16(p, le); break;
+        case 4: case 13: values[i] = view.getUint32(p, le); break;
+        case 8: values[i] = view.getInt16(p, le); break;
+        case 9: values[i] = view.getInt32(p, le); break;
+        case 5: values[i] = view.getUint32(p, le) / (view.getUint32(p + 4, le) || 1); break;
+        case 10: values[i] = view.getInt32(p, le) / (view.getInt32(p + 4, le) || 1); break;
+        case 11: values[i] = view.getFloat32(p, le); break;
+        case 12: values[i] = view.getFloat64(p, le); break;
+        case 6: values[i] = view.getInt8(p); break;
+        default: values[i] = view.getUint8(p); break;
+      }
+    }
+    ifd.set(tag, values);
+  }
+  return ifd;
+};
+
+const decodePackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < expected) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      const end = Math.min(i + n + 1, input.length);
+      while (i < end && o < expected) out[o++] = input[i++];
+    } else if (n !== -128) {
+      const value = input[i++];
+      for (let k = 0; k < 1 - n && o < expected; k++) out[o++] = value;
+    }
+  }
+  return out;
+};
+
+// TIFF flavor of LZW: MSB-first codes of 9-12 bits, 256 = clear, 257 = end, "early change" widths
+const decodeLzw = (input: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    first[i] = i;
+    length[i] = 1;
+  }
+
+  const totalBits = input.length * 8;
+  let bitPos = 0;
+  let width = 9;
+  let next = 258;
+  let old = -1;
+  let o = 0;
+
+  // Writes the string of `code` (built backwards through the prefix chain)
+  const emit = (code: number) => {
+    const len = length[code];
+    let c = code;
+    for (let k = len - 1; k >= 0; k--) {
+      if (o + k < expected) out[o + k] = suffix[c];
+      c = prefix[c];
+    }
+    o += len;
+  };
+
+  while (o < expected && bitPos + width <= totalBits) {
+    const byte = bitPos >> 3;
+    const window = (input[byte] << 16) | ((input[byte + 1] ?? 0) << 8) | (input[byte + 2] ?? 0);
+    const code = (window >> (24 - (bitPos & 7) - width)) & ((1 << width) - 1);
+    bitPos += width;
+
+    if (code === 257) break;
+    if (code === 256) {
+      width = 9;
+      next = 258;
+      old = -1;
+      continue;
+    }
+    if (old === -1) {
+      if (code > 255) throw new Error('Corrupt LZW data');
+      emit(code);
+      old = code;
+      continue;
+    }
+    if (code > next || (code === next && next >= 4096)) throw new Error('Corrupt LZW data');
+
+    // A code one past the table (KwKwK) is the previous string plus its own first byte
+    if (next < 4096) {
+      prefix[next] = old;
+      suffix[next] = code < next ? first[code] : first[old];
+      first[next] = first[old];
+      length[next] = length[old] + 1;
+      next++;
+    }
+    emit(code);
+    old = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out;
+};
+
+const decompress = (compression: number, input: Uint8Array, expected: number): Uint8Array => {
+  switch (compression) {
+    case COMPRESSION.none: {
+      if (input.length >= expected) return input.subarray(0, expected);
+      const padded = new Uint8Array(expected);
+      padded.set(input);
+      return padded;
+    }
+    case COMPRESSION.packBits:
+      return decodePackBits(input, expected);
+    case COMPRESSION.lzw:
+      return decodeLzw(input, expected);
+    case COMPRESSION.deflate:
+    case COMPRESSION.deflateLegacy: {
+      const inflated = inflate(input);
+      if (inflated.length >= expected) return inflated;
+      const padded = new Uint8Array(expected);
+      padded.set(inflated);
+      return padded;
+    }
+    case 6:
+    case 7:
+      throw new Error('JPEG-compressed TIFF is not supported');
+    default:
+      throw new Error(`TIFF compression ${compression} is not supported`);
+  }
+};
+
+// Horizontal differencing (predictor 2), undone in place per row and sample
+const undoPredictor = (raw: Uint8Array, rowWidth: number, rows: number, samples: number, bits: number, le: boolean) => {
+  if (bits === 8) {
+    const stride = rowWidth * samples;
+    for (let y = 0; y < rows; y++) {
+      const row = y * stride;
+      for (let i = samples; i < stride; i++) raw[row + i] = (raw[row + i] + raw[row + i - samples]) & 0xff;
+    }
+    return;
+  }
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+  const stride = rowWidth * samples * 2;
+  for (let y = 0; y < rows; y++) {
+    const row = y * stride;
+    for (let i = samples; i < rowWidth * samples; i++) {
+      const p = row + i * 2;
+      view.setUint16(p, (view.getUint16(p, le) + view.getUint16(p - samples * 2, le)) & 0xffff, le);
+    }
+  }
+};
+
+export const isTiff = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 && (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  );
+
+// Decodes the first image of a TIFF file to upright RGBA (the Orientation tag is applied).
+// Throws an Error naming the unsupported feature for files outside the baseline.
+export const decodeTiff = (buffer: ArrayBuffer | Uint8Array): RawImage => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length >= 4 && (bytes[2] === 43 || bytes[3] === 43)) throw new Error('BigTIFF is not supported');
+  if (!isTiff(bytes)) throw new Error('Not a TIFF file');
+  const le = bytes[0] === 0x49;
+
+  const ifd = readIfd(view, view.getUint32(4, le), le);
+  const get = (tag: number, fallback: number) => ifd.get(tag)?.[0] ?? fallback;
+
+  const width = get(TAG.imageWidth, 0);
+  const height = get(TAG.imageLength, 0);
+  if (width <= 0 || height <= 0) throw new Error('TIFF has no image size');
+
+  const spp = get(TAG.samplesPerPixel, 1);
+  const bitsPerSample = ifd.get(TAG.bitsPerSample) ?? [1];
+  const bits = bitsPerSample[0];
+  if (bits !== 8 && bits !== 16) throw new Error(`${bits}-bit TIFF samples are not supported`);
+  if (bitsPerSample.some(b => b !== bits)) throw new Error('TIFF with mixed sample sizes is not supported');
+  if (get(TAG.sampleFormat, 1) !== 1) throw new Error('Floating-point TIFF is not supported');
+
+  const compression = get(TAG.compression, COMPRESSION.none);
+  const predictor = get(TAG.predictor, 1);
+  if (predictor !== 1 && predictor !== 2) throw new Error(`TIFF predictor ${predictor} is not supported`);
+  const planar = get(TAG.planarConfiguration, 1) === 2;
+
+  const photometric = get(TAG.photometric, spp >= 3 ? PHOTOMETRIC.rgb : PHOTOMETRIC.blackIsZero);
+  const colorSamples = photometric === PHOTOMETRIC.rgb ? 3 : photometric === PHOTOMETRIC.cmyk ? 4 : 1;
+  if (![PHOTOMETRIC.whiteIsZero, PHOTOMETRIC.blackIsZero, PHOTOMETRIC.rgb, PHOTOMETRIC.palette, PHOTOMETRIC.cmyk].includes(photometric)) {
+    throw new Error(`TIFF color space ${photometric} is not supported`);
+  }
+  if (spp < colorSamples) throw new Error('TIFF has too few samples per pixel');
+  const colorMap = ifd.get(TAG.colorMap);
+  if (photometric === PHOTOMETRIC.palette && (bits !== 8 || !colorMap)) throw new Error('Unsupported TIFF palette');
+
+  // The first extra sample is alpha when marked associated (1, premultiplied) or unassociated (2)
+  const extra = ifd.get(TAG.extraSamples)?.[0] ?? 0;
+  const alphaIndex = spp > colorSamples && (extra === 1 || extra === 2) ? colorSamples : -1;
+  const premultiplied = extra === 1;
+
+  // Strips are full-width chunks of rowsPerStrip rows; tiles are tileWidth x tileLength
+  const tiled = ifd.has(TAG.tileOffsets);
+  const offsets = ifd.get(tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const counts = ifd.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  if (!offsets || !counts) throw new Error('TIFF has no image data');
+  const chunkW = tiled ? get(TAG.tileWidth, 0) : width;
+  const chunkH = tiled ? get(TAG.tileLength, 0) : Math.min(get(TAG.rowsPerStrip, height), height);
+  if (chunkW <= 0 || chunkH <= 0) throw new Error('Invalid TIFF tile size');
+  const across = Math.ceil(width / chunkW);
+  const down = Math.ceil(height / chunkH);
+  const samplesInChunk = planar ? 1 : spp;
+  const bytesPerSample = bits / 8;
+
+  // 8-bit samples of the whole image, chunky order
+  const samples = new Uint8Array(width * height * spp);
+  for (let plane = 0; plane < (planar ? spp : 1); plane++) {
+    for (let cy = 0; cy < down; cy++) {
+      for (let cx = 0; cx < across; cx++) {
+        const index = plane * across * down + cy * across + cx;
+        if (index >= offsets.length) throw new Error('Truncated TIFF');
+        const y0 = cy * chunkH;
+        const x0 = cx * chunkW;
+        // The last strip may be short; tiles are always full size
+        const rows = tiled ? chunkH : Math.min(chunkH, height - y0);
+        const expected = chunkW * rows * samplesInChunk * bytesPerSample;
+        const start = offsets[index];
+        const end = Math.min(bytes.length, start + counts[index]);
+        const raw = decompress(compression, bytes.subarray(start, end), expected);
+        if (predictor === 2) undoPredictor(raw, chunkW, rows, samplesInChunk, bits, le);
+
+        const rawView = bits === 16 ? new DataView(raw.buffer, raw.byteOffset, raw.byteLength) : null;
+        const yEnd = Math.min(rows, height - y0);
+        const xEnd = Math.min(chunkW, width - x0);
+        for (let y = 0; y < yEnd; y++) {
+          for (let x = 0; x < xEnd; x++) {
+            const src = (y * chunkW + x) * samplesInChunk;
+            const dst = ((y0 + y) * width + x0 + x) * spp + plane;
+            for (let s = 0; s < samplesInChunk; s++) {
+              samples[dst + s] = rawView ? rawView.getUint16((src + s) * 2, le) >> 8 : raw[src + s];
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const paletteSize = 256;
+  for (let i = 0, base = 0; i < width * height; i++, base += spp) {
+    const idx = i * 4;
+    switch (photometric) {
+      case PHOTOMETRIC.whiteIsZero:
+        data[idx] = data[idx + 1] = data[idx + 2] = 255 - samples[base];
+        break;
+      case PHOTOMETRIC.blackIsZero:
+        data[idx] = data[idx + 1] = data[idx + 2] = samples[base];
+        break;
+      case PHOTOMETRIC.palette: {
+        const p = samples[base];
+        data[idx] = colorMap![p] >> 8;
+        data[idx + 1] = colorMap![paletteSize + p] >> 8;
+        data[idx + 2] = colorMap![2 * paletteSize + p] >> 8;
+        break;
+      }
+      case PHOTOMETRIC.cmyk: {
+        const k = 255 - samples[base + 3];
+        data[idx] = ((255 - samples[base]) * k) / 255;
+        data[idx + 1] = ((255 - samples[base + 1]) * k) / 255;
+        data[idx + 2] = ((255 - samples[base + 2]) * k) / 255;
+        break;
+      }
+      default:
+        data[idx] = samples[base];
+        data[idx + 1] = samples[base + 1];
+        data[idx + 2] = samples[base + 2];
+    }
+    const a = alphaIndex >= 0 ? samples[base + alphaIndex] : 255;
+    data[idx + 3] = a;
+    if (premultiplied && a > 0 && a < 255) {
+      data[idx] = (data[idx] * 255) / a;
+      data[idx + 1] = (data[idx + 1] * 255) / a;
+      data[idx + 2] = (data[idx + 2] * 255) / a;
+    }
+  }
+
+  return applyOrientation({ width, height, data }, get(TAG.orientation, 1));
+};
@@ -0,0 +1,99 @@
+// Embeds a DPI value into a WebP file as an EXIF chunk (XResolution / YResolution / ResolutionUnit).
+// Simple-format files (a lone VP8 or VP8L chunk) are upgraded to the extended format first,
+// since only extended files may carry metadata.
+
+const VP8X_FLAG_ALPHA = 0x10;
+const VP8X_FLAG_EXIF = 0x08;
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const writeFourCC = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < 4; i++) bytes[offset + i] = text.charCodeAt(i);
+};
+
+// Little-endian TIFF block with a single IFD holding the resolution tags
+const resolutionExif = (dpi: number): Uint8Array => {
+  const out = new Uint8Array(66);
+  const view = new DataView(out.buffer);
+  out.set([0x49, 0x49, 0x2a, 0x00], 0); // "II", 42
+  view.setUint32(4, 8, true); // First IFD offset
+
+  view.setUint16(8, 3, true); // Entry count
+  const entry = (index: number, tag: number, type: number, value: number) => {
+    const at = 10 + index * 12;
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, 1, true); // Count
+    view.setUint32(at + 8, value, true);
+  };
+  entry(0, 0x011a, 5, 50); // XResolution, RATIONAL at offset 50
+  entry(1, 0x011b, 5, 58); // YResolution, RATIONAL at offset 58
+  entry(2, 0x0128, 3, 2); // ResolutionUnit = inch
+  view.setUint32(46, 0, true); // No next IFD
+
+  const rounded = Math.round(dpi);
+  view.setUint32(50, rounded, true);
+  view.setUint32(54, 1, true);
+  view.setUint32(58, rounded, true);
+  view.setUint32(62, 1, true);
+  return out;
+};
+
+const makeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length + (data.length % 2);
+  const out = new Uint8Array(8 + padded);
+  writeFourCC(out, 0, type);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+export const setWebpDpi = (
+  webp: Uint8Array,
+  width: number,
+  height: number,
+  hasAlpha: boolean,
+  dpi: number
+): Uint8Array<ArrayBuffer> => {
+  if (fourCC(webp, 0) !== 'RIFF' || fourCC(webp, 8) !== 'WEBP') {
+    throw new Error('Not a WebP file');
+  }
+
+  // Existing chunks after the RIFF header, minus any previous EXIF
+  const chunks: Uint8Array[] = [];
+  let vp8x: Uint8Array | null = null;
+  for (let offset = 12; offset + 8 <= webp.length;) {
+    const type = fourCC(webp, offset);
+    const size = new DataView(webp.buffer, webp.byteOffset + offset + 4, 4).getUint32(0, true);
+    const end = Math.min(webp.length, offset + 8 + size + (size % 2));
+    const bytes = webp.slice(offset, end);
+    if (type === 'VP8X') vp8x = bytes;
+    else if (type !== 'EXIF') chunks.push(bytes);
+    offset = end;
+  }
+
+  if (!vp8x) {
+    const header = new Uint8Array(10);
+    header[0] = hasAlpha ? VP8X_FLAG_ALPHA : 0;
+    const w = width - 1;
+    const h = height - 1;
+    header.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    vp8x = makeChunk('VP8X', header);
+  }
+  vp8x[8] |= VP8X_FLAG_EXIF;
+
+  // EXIF goes after the image data
+  const parts = [vp8x, ...chunks, makeChunk('EXIF', resolutionExif(dpi))];
+  const total = 12 + parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  writeFourCC(out, 0, 'RIFF');
+  new DataView(out.buffer).setUint32(4, total - 8, true);
+  writeFourCC(out, 8, 'WEBP');
+  let offset = 12;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
@@ -0,0 +1,113 @@
+import { WorkerConversion, WorkerConvertRequest, WorkerDebug, WorkerLayers, WorkerMeasurement, WorkerRequest, WorkerResponse, WorkerResult } from '../types';
+
+interface Task {
+  request: WorkerRequest | WorkerConvertRequest;
+  transfer: Transferable[];
+  resolve: (response: WorkerResult | WorkerMeasurement | WorkerLayers | WorkerDebug | WorkerConversion) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void; // Listener on signal for the task's current phase (queued or running)
+}
+
+export interface WorkerPool {
+  run: (
+    request: WorkerRequest | WorkerConvertRequest,
+    transfer: Transferable[],
+    signal?: AbortSignal
+  ) => Promise<WorkerResult | WorkerMeasurement | WorkerLayers | WorkerDebug | WorkerConversion>;
+  terminate: () => void;
+}
+
+const abortReason = (signal: AbortSignal): unknown => signal.reason ?? new DOMException('Aborted', 'AbortError');
+
+// Fixed-size pool of processing workers. Workers are spawned lazily and each handles one image at a time;
+// extra requests wait in a FIFO queue. An aborted request leaves the queue, or its worker is terminated
+// (the pipeline cannot be interrupted mid-message) and replaced on demand.
+export const createWorkerPool = (size: number): WorkerPool => {
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const queue: Task[] = [];
+
+  const spawn = (): Worker => {
+    const worker = new Worker(new URL('./processingWorker.ts', import.meta.url), { type: 'module' });
+    workers.push(worker);
+    return worker;
+  };
+
+  const retire = (worker: Worker) => {
+    worker.terminate();
+    workers.splice(workers.indexOf(worker), 1);
+  };
+
+  const listen = (task: Task, onAbort: (() => void) | undefined) => {
+    if (task.onAbort) task.signal?.removeEventListener('abort', task.onAbort);
+    task.onAbort = onAbort;
+    if (onAbort) task.signal?.addEventListener('abort', onAbort, { once: true });
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      const worker = idle.pop() ?? (workers.length < size ? spawn() : undefined);
+      if (!worker) return;
+
+      const task = queue.shift()!;
+      listen(task, () => {
+        retire(worker);
+        task.reject(abortReason(task.signal!));
+        dispatch();
+      });
+      const settle = () => listen(task, undefined);
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        settle();
+        idle.push(worker);
+        const data = event.data;
+        if ('error' in data) {
+          task.reject(new Error(data.error));
+        } else {
+          task.resolve(data);
+        }
+        dispatch();
+      };
+      worker.onerror = (event) => {
+        settle();
+        // A crashed worker cannot be trusted for further work
+        retire(worker);
+        task.reject(new Error(event.message || 'Worker crashed'));
+        dispatch();
+      };
+      worker.postMessage(task.request, task.transfer);
+    }
+  };
+
+  return {
+    run: (request, transfer, signal) => new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+      const task: Task = { request, transfer, resolve, reject, signal };
+      // Still waiting for a worker: just drop it from the queue
+      listen(task, () => {
+        queue.splice(queue.indexOf(task), 1);
+        reject(abortReason(signal!));
+      });
+      queue.push(task);
+      dispatch();
+    }),
+    terminate: () => {
+      workers.slice().forEach(retire);
+      idle.length = 0;
+      queue.splice(0).forEach(task => task.reject(new Error('Worker pool terminated')));
+    },
+  };
+};
+
+let sharedPool: WorkerPool | null = null;
+
+// One pool for the whole app, sized to the number of cores
+export const getWorkerPool = (): WorkerPool => {
+  if (!sharedPool) {
+    sharedPool = createWorkerPool(navigator.hardwareConcurrency || 4);
+  }
+  return sharedPool;
+};
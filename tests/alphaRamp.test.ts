@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RawImage } from '../types';
+import { DEFAULT_PARAMS } from '../constants';
+import { rampAlpha, runPipeline } from '../services/pipeline';
+
+describe('rampAlpha', () => {
+  const opaque = 0.1;
+  const clear = 0.5;
+
+  test('transparent up to the tolerance, opaque past the fade', () => {
+    assert.equal(rampAlpha(0, opaque, clear), 0);
+    assert.equal(rampAlpha(opaque, opaque, clear), 0);
+    assert.equal(rampAlpha(clear + 1e-9, opaque, clear), 255);
+    assert.equal(rampAlpha(1, opaque, clear), 255);
+  });
+
+  test('linear and monotonic in between', () => {
+    assert.equal(rampAlpha((opaque + clear) / 2, opaque, clear), 127);
+    assert.equal(rampAlpha(clear, opaque, clear), 255);
+    let previous = 0;
+    for (let d = 0; d <= 1; d += 0.001) {
+      const a = rampAlpha(d, opaque, clear);
+      assert.ok(Number.isInteger(a) && a >= previous && a <= 255, `at ${d}`);
+      previous = a;
+    }
+  });
+});
+
+describe('keyed alpha in the pipeline', () => {
+  // One row stepping from the backdrop color to black: the key distance grows linearly along it
+  const width = 64;
+  const row = (): RawImage => {
+    const data = new Uint8ClampedArray(width * 4);
+    for (let x = 0; x < width; x++) {
+      const v = Math.round(240 * (1 - x / (width - 1)));
+      data.set([v, v, v, 255], x * 4);
+    }
+    return { width, height: 1, data };
+  };
+
+  test('follows the ramp between colorTolerance and colorTolerance x fadeStrength', () => {
+    const params = {
+      ...DEFAULT_PARAMS,
+      autoDetectBg: false,
+      manualBgColor: [240, 240, 240] as [number, number, number],
+      toleranceMode: 'absolute' as const,
+      colorTolerance: 20,
+      fadeStrength: 10,
+      alphaBoost: 1,
+      minSpeckArea: 0,
+      maxHoleArea: 0,
+      objectThreshold: 254,
+    };
+    const { image } = runPipeline(row(), params);
+    for (let x = 0; x < width; x++) {
+      const v = Math.round(240 * (1 - x / (width - 1)));
+      const expected = rampAlpha(Math.sqrt(3) * (240 - v) / 255, params.colorTolerance / 255, (params.colorTolerance * params.fadeStrength) / 255);
+      assert.ok(Math.abs(image.data[x * 4 + 3] - expected) <= 1, `at ${x}: ${image.data[x * 4 + 3]} != ${expected}`);
+    }
+  });
+});
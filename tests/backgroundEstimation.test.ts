@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BackgroundModel, RawImage } from '../types';
+import { estimateBackground, evaluateBackground } from '../services/backgroundEstimation';
+
+const WIDTH = 120;
+const HEIGHT = 80;
+
+// Image whose backdrop is `backdrop(u, v)` (u, v in [-1, 1] across the frame), with a dark product
+// where `isProduct` holds and a deterministic +-3 level noise
+const scene = (backdrop: (u: number, v: number) => number[], isProduct: (x: number, y: number) => boolean): RawImage => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  let seed = 7;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const idx = (y * WIDTH + x) * 4;
+      const color = isProduct(x, y) ? [30, 40, 50] : backdrop((x / (WIDTH - 1)) * 2 - 1, (y / (HEIGHT - 1)) * 2 - 1);
+      for (let c = 0; c < 3; c++) {
+        seed = (seed * 1103515245 + 12345) >>> 0;
+        data[idx + c] = Math.round(color[c] + ((seed >>> 16) % 7) - 3);
+      }
+      data[idx + 3] = 255;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+};
+
+// Largest per-channel error of the model against the noise-free backdrop, over the whole frame
+const maxError = (model: BackgroundModel, backdrop: (u: number, v: number) => number[]) => {
+  const out = [0, 0, 0];
+  let worst = 0;
+  for (let y = 0; y < HEIGHT; y += 3) {
+    for (let x = 0; x < WIDTH; x += 3) {
+      evaluateBackground(model, x, y, out);
+      const truth = backdrop((x / (WIDTH - 1)) * 2 - 1, (y / (HEIGHT - 1)) * 2 - 1);
+      for (let c = 0; c < 3; c++) worst = Math.max(worst, Math.abs(out[c] - truth[c]));
+    }
+  }
+  return worst;
+};
+
+const centered = (x: number, y: number) => Math.abs(x - WIDTH / 2) < 30 && Math.abs(y - HEIGHT / 2) < 20;
+// A product standing on the bottom edge, covering a large part of the bottom band
+const touchingBottom = (x: number, y: number) => Math.abs(x - WIDTH / 2) < 35 && y > 30;
+
+describe('estimateBackground', () => {
+  test('constant backdrop', () => {
+    const backdrop = () => [232, 236, 240];
+    const model = estimateBackground(scene(backdrop, centered), 10, 'constant');
+    assert.equal(model.type, 'constant');
+    assert.ok(maxError(model, backdrop) <= 1, `error ${maxError(model, backdrop)}`);
+  });
+
+  test('rejects a product touching the border as outliers', () => {
+    const backdrop = () => [245, 245, 245];
+    const model = estimateBackground(scene(backdrop, touchingBottom), 10, 'constant');
+    assert.ok(maxError(model, backdrop) <= 1, `error ${maxError(model, backdrop)}`);
+  });
+
+  test('plane fits a linear falloff', () => {
+    const backdrop = (u: number, v: number) => [210 - 25 * v + 10 * u, 212 - 25 * v + 10 * u, 220 - 20 * v];
+    const model = estimateBackground(scene(backdrop, touchingBottom), 10, 'plane');
+    assert.ok(maxError(model, backdrop) <= 2, `error ${maxError(model, backdrop)}`);
+    // A constant key cannot follow it
+    assert.ok(maxError(estimateBackground(scene(backdrop, centered), 10, 'constant'), backdrop) > 10);
+  });
+
+  test('quadratic fits a vignette', () => {
+    const backdrop = (u: number, v: number) => {
+      const falloff = 30 * (u * u + v * v) / 2;
+      return [240 - falloff, 240 - falloff, 244 - falloff];
+    };
+    const model = estimateBackground(scene(backdrop, centered), 10, 'quadratic');
+    assert.ok(maxError(model, backdrop) <= 2, `error ${maxError(model, backdrop)}`);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cleanupMasks } from '../services/connectedComponents';
+
+// Masks from an ASCII picture: '#' object, '+' shadow, '.' background
+const parse = (rows: string[]) => {
+  const width = rows[0].length;
+  const height = rows.length;
+  const objectMask = new Uint8Array(width * height);
+  const shadowMask = new Uint8Array(width * height);
+  rows.forEach((row, y) => [...row].forEach((c, x) => {
+    if (c === '#') objectMask[y * width + x] = 1;
+    if (c === '+') shadowMask[y * width + x] = 1;
+  }));
+  return { width, height, objectMask, shadowMask, alphaRaw: new Uint8Array(width * height) };
+};
+
+const render = ({ width, objectMask, shadowMask }: ReturnType<typeof parse>) =>
+  Array.from({ length: objectMask.length / width }, (_, y) =>
+    Array.from({ length: width }, (_, x) => objectMask[y * width + x] ? '#' : shadowMask[y * width + x] ? '+' : '.').join(''));
+
+const clean = (rows: string[], options: { minSpeckArea?: number; maxHoleArea?: number; keepLargestObject?: boolean }) => {
+  const masks = parse(rows);
+  cleanupMasks(masks.alphaRaw, masks.objectMask, masks.shadowMask, masks.width, masks.height, {
+    minSpeckArea: 0,
+    maxHoleArea: 0,
+    keepLargestObject: false,
+    ...options,
+  });
+  return render(masks);
+};
+
+describe('cleanupMasks', () => {
+  test('drops islands smaller than minSpeckArea, counting diagonal neighbors as connected', () => {
+    assert.deepEqual(clean([
+      '#.......',
+      '.#...##.',
+      '.....##.',
+      '+.......',
+    ], { minSpeckArea: 3 }), [
+      '........',
+      '.....##.',
+      '.....##.',
+      '........',
+    ]);
+  });
+
+  test('keeps the largest object and only the shadows touching it', () => {
+    assert.deepEqual(clean([
+      '##....###',
+      '##....###',
+      '.+....+++',
+      '+.......+',
+    ], { keepLargestObject: true }), [
+      '......###',
+      '......###',
+      '......+++',
+      '........+',
+    ]);
+  });
+
+  test('fills enclosed holes up to maxHoleArea, but not gaps reaching the edge', () => {
+    const masks = parse([
+      '#####.####',
+      '#..+#.#..#',
+      '#####.#..#',
+      '......#..#',
+      '......####',
+    ]);
+    cleanupMasks(masks.alphaRaw, masks.objectMask, masks.shadowMask, masks.width, masks.height, {
+      minSpeckArea: 0, maxHoleArea: 3, keepLargestObject: false,
+    });
+    assert.deepEqual(render(masks), [
+      '#####.####',
+      '#####.#..#',
+      '#####.#..#',
+      '......#..#',
+      '......####',
+    ]);
+    assert.equal(masks.alphaRaw[1 * 10 + 3], 255);
+  });
+
+  test('scratch memory stays near one bit per pixel on a large frame', () => {
+    const width = 3000;
+    const height = 2000;
+    const size = width * height;
+    const objectMask = new Uint8Array(size);
+    const shadowMask = new Uint8Array(size);
+    // A large disc with a hole, a shadow band under it and a grid of specks
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const r = Math.hypot(x - 1500, y - 900);
+        const i = y * width + x;
+        if (r < 800 && r > 5) objectMask[i] = 1;
+        else if (y > 1700 && y < 1800 && x > 500 && x < 2500) shadowMask[i] = 1;
+        else if (x % 50 === 0 && y % 50 === 0) objectMask[i] = 1;
+      }
+    }
+    const peak = cleanupMasks(new Uint8Array(size), objectMask, shadowMask, width, height, {
+      minSpeckArea: 16, maxHoleArea: 500, keepLargestObject: true,
+    });
+    // The old full-frame labeling took 8 bytes per pixel
+    assert.ok(peak <= size / 8 + 32 * (width + height), `peak scratch ${peak} bytes for ${size} pixels`);
+    assert.equal(objectMask[900 * width + 1500], 1, 'hole filled');
+    assert.equal(objectMask[0], 0, 'speck removed');
+  });
+});
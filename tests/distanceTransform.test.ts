@@ -0,0 +1,81 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeDistanceMap } from '../services/distanceTransform';
+
+// Brute force reference: distance from every pixel to the nearest pixel where `isTarget` holds
+const bruteForce = (width: number, height: number, isTarget: (i: number) => boolean, metric: (dx: number, dy: number) => number) => {
+  const out = new Float64Array(width * height).fill(Infinity);
+  for (let i = 0; i < width * height; i++) {
+    for (let j = 0; j < width * height; j++) {
+      if (!isTarget(j)) continue;
+      out[i] = Math.min(out[i], metric((i % width) - (j % width), Math.floor(i / width) - Math.floor(j / width)));
+    }
+  }
+  return out;
+};
+
+const randomMask = (width: number, height: number, density: number, seed: number) => {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    mask[i] = seed / 2 ** 32 < density ? 1 : 0;
+  }
+  return mask;
+};
+
+const euclidean = (dx: number, dy: number) => Math.hypot(dx, dy);
+const manhattan = (dx: number, dy: number) => Math.abs(dx) + Math.abs(dy);
+
+describe('computeDistanceMap', () => {
+  test('euclidean distance to a single seed is exact', () => {
+    const width = 21;
+    const height = 15;
+    const mask = new Uint8Array(width * height);
+    mask[7 * width + 10] = 1;
+    const dist = computeDistanceMap(mask, width, height, false, 'euclidean');
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        assert.ok(Math.abs(dist[y * width + x] - Math.hypot(x - 10, y - 7)) < 1e-4, `at ${x},${y}`);
+      }
+    }
+  });
+
+  test('manhattan distance to a single seed is the L1 distance', () => {
+    const width = 9;
+    const height = 7;
+    const mask = new Uint8Array(width * height);
+    mask[3 * width + 4] = 1;
+    const dist = computeDistanceMap(mask, width, height, false, 'manhattan');
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) assert.equal(dist[y * width + x], Math.abs(x - 4) + Math.abs(y - 3));
+    }
+  });
+
+  for (const [name, metric] of [['euclidean', euclidean], ['manhattan', manhattan]] as const) {
+    test(`${name} matches brute force on random masks, both polarities`, () => {
+      const width = 23;
+      const height = 17;
+      for (const [density, seed] of [[0.05, 1], [0.3, 2], [0.8, 3]]) {
+        const mask = randomMask(width, height, density, seed);
+        for (const invert of [false, true]) {
+          const expected = bruteForce(width, height, i => invert ? mask[i] === 0 : mask[i] === 1, metric);
+          const dist = computeDistanceMap(mask, width, height, invert, name);
+          for (let i = 0; i < mask.length; i++) {
+            assert.ok(Math.abs(dist[i] - expected[i]) < 1e-4, `density ${density}, invert ${invert}, pixel ${i}: ${dist[i]} != ${expected[i]}`);
+          }
+        }
+      }
+    });
+  }
+
+  test('inverted map measures depth inside the object', () => {
+    // 7x7 solid square in a 11x11 frame: depth 1 on its rim, 4 at its center
+    const size = 11;
+    const mask = new Uint8Array(size * size);
+    for (let y = 2; y < 9; y++) for (let x = 2; x < 9; x++) mask[y * size + x] = 1;
+    const dist = computeDistanceMap(mask, size, size, true, 'euclidean');
+    assert.equal(dist[0], 0);
+    assert.equal(dist[2 * size + 5], 1);
+    assert.equal(dist[5 * size + 5], 4);
+  });
+});
@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { AlgorithmParams, RawImage } from '../types';
+import { DEFAULT_PARAMS } from '../constants';
+import { TILE_SIZE } from '../services/pipeline';
+import { decodeImage, isSupportedImage } from '../cli/imageIO';
+import { sanitizeParams } from '../services/presetService';
+
+// Inputs of the golden-image suite. The synthetic scenes are generated in code (seeded, so every run
+// sees identical pixels); photos dropped into tests/fixtures/ are picked up as well, each with optional
+// parameters in a sidecar JSON file of the same name (e.g. mug.jpg + mug.json).
+
+export interface Fixture {
+  name: string; // Also the golden file name
+  description: string;
+  load: () => RawImage;
+  params: AlgorithmParams;
+}
+
+export const FIXTURES_DIR = path.join(import.meta.dirname, 'fixtures');
+
+const WIDTH = 128;
+const HEIGHT = 96;
+
+// mulberry32: small, fast and identical on every platform
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+type Rgb = [number, number, number];
+
+// Paints every pixel from `shade(x, y)`, plus up to +-noise levels of per-channel sensor noise
+const paint = (
+  seed: number,
+  noise: number,
+  shade: (x: number, y: number) => Rgb,
+  width = WIDTH,
+  height = HEIGHT
+): RawImage => {
+  const random = seededRandom(seed);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const color = shade(x, y);
+      for (let c = 0; c < 3; c++) data[idx + c] = Math.round(color[c] + (random() * 2 - 1) * noise);
+      data[idx + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const mix = (a: Rgb, b: Rgb, t: number): Rgb => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t,
+];
+
+// Pixel coverage of a shape given by its signed distance (negative inside), anti-aliased over one pixel
+const coverage = (signedDistance: number) => Math.min(1, Math.max(0, 0.5 - signedDistance));
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Default parameters except for a short fade: with the default fade strength the ramp ends past the most
+// distinct pixel, so these small, high-contrast scenes would have no solid object at all
+const params = (overrides: Partial<AlgorithmParams>): AlgorithmParams => ({ ...DEFAULT_PARAMS, fadeStrength: 3, ...overrides });
+
+const SYNTHETIC_FIXTURES: Fixture[] = [
+  {
+    name: 'solid-backdrop',
+    description: 'Flat light grey backdrop with sensor noise and a rounded navy box',
+    load: () => paint(1, 2, (x, y) => {
+      // Rounded rectangle centered in the frame
+      const qx = Math.abs(x + 0.5 - 64) - 30;
+      const qy = Math.abs(y + 0.5 - 50) - 22;
+      const d = Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0) - 6;
+      return mix([245, 245, 245], [40, 60, 140], coverage(d));
+    }),
+    params: params({}),
+  },
+  {
+    name: 'gradient-backdrop',
+    description: 'Sweep lit from the top left (linear falloff) with an orange ball',
+    load: () => paint(2, 2, (x, y) => {
+      const falloff = 0.6 * (y / (HEIGHT - 1)) + 0.25 * (x / (WIDTH - 1));
+      const backdrop = mix([238, 238, 240], [175, 175, 182], falloff);
+      return mix(backdrop, [220, 110, 30], coverage(Math.hypot(x + 0.5 - 70, y + 0.5 - 46) - 24));
+    }),
+    params: params({ bgModel: 'plane', outputMode: 'color' }),
+  },
+  {
+    name: 'soft-shadow',
+    description: 'White backdrop, dark bottle and the soft floor shadow it casts',
+    load: () => paint(3, 1, (x, y) => {
+      // Elliptical shadow, darkest under the bottle and fading out smoothly
+      const sx = (x + 0.5 - 72) / 40;
+      const sy = (y + 0.5 - 80) / 9;
+      const shadow = clamp01(1 - Math.hypot(sx, sy)) ** 1.5;
+      const floor = mix([250, 250, 250], [190, 190, 192], shadow);
+      // Bottle: body plus neck
+      const body = Math.max(Math.abs(x + 0.5 - 56) - 14, Math.abs(y + 0.5 - 58) - 22);
+      const neck = Math.max(Math.abs(x + 0.5 - 56) - 5, Math.abs(y + 0.5 - 26) - 12);
+      return mix(floor, [25, 70, 35], coverage(Math.min(body, neck)));
+    }),
+    params: params({ fadeStrength: 6, shavePx: 1, featherWidth: 2, outputMode: 'color' }),
+  },
+  {
+    name: 'thin-structures',
+    description: 'Hairline, 2 px rod and a thin ring (jewelry chain, wire) on a flat backdrop',
+    load: () => paint(4, 2, (x, y) => {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      // 1 px anti-aliased diagonal through (10, 85) and (60, 10), edge to edge
+      const diagonal = Math.abs((py - 85) * 50 + (px - 10) * 75) / Math.hypot(50, 75) - 0.5;
+      const rod = Math.max(Math.abs(py - 70) - 1, Math.abs(px - 80) - 35);
+      const ring = Math.abs(Math.hypot(px - 92, py - 34) - 20) - 0.75;
+      return mix([240, 240, 240], [30, 30, 30], coverage(Math.min(diagonal, rod, ring)));
+    }),
+    params: params({ minSpeckArea: 4, maxHoleArea: 0, distanceMetric: 'manhattan', shavePx: 0, featherWidth: 1 }),
+  },
+  {
+    name: 'tile-seam',
+    description: `Shelf board and post across the first tile seam (x = ${TILE_SIZE}), with a soft floor shadow`,
+    load: () => paint(5, 2, (x, y) => {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      // Shadow band under the board, fading out below it and at both ends
+      const sx = (px - 680) / 500;
+      const sy = (py - 74) / 14;
+      const shadow = clamp01(1 - Math.hypot(sx, sy)) ** 1.5;
+      const floor = mix([246, 246, 244], [200, 200, 203], shadow);
+      // Board from x = 100 to 1150, plus a post whose left edge is exactly on the seam
+      const board = Math.max(Math.abs(px - 625) - 525, Math.abs(py - 48) - 8);
+      const post = Math.max(Math.abs(px - TILE_SIZE - 8) - 8, Math.abs(py - 36) - 24);
+      return mix(floor, [120, 72, 40], coverage(Math.min(board, post)));
+    }, TILE_SIZE + 176, 112),
+    // Shave and feather read pixels across the seam, so they must come out as if untiled
+    params: params({ fadeStrength: 6, shavePx: 2, featherWidth: 3, outputMode: 'color' }),
+  },
+];
+
+// Photos in tests/fixtures/, sorted by name. Their goldens are named after the file (without extension).
+const photoFixtures = (): Fixture[] => {
+  if (!fs.existsSync(FIXTURES_DIR)) return [];
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(isSupportedImage)
+    .sort()
+    .map(file => {
+      const name = path.basename(file, path.extname(file));
+      const sidecar = path.join(FIXTURES_DIR, `${name}.json`);
+      const overrides = fs.existsSync(sidecar) ? JSON.parse(fs.readFileSync(sidecar, 'utf8')) : {};
+      return {
+        name,
+        description: `Photo ${file}`,
+        load: () => decodeImage(fs.readFileSync(path.join(FIXTURES_DIR, file)), file),
+        params: sanitizeParams(overrides),
+      };
+    });
+};
+
+export const loadFixtures = (): Fixture[] => [...SYNTHETIC_FIXTURES, ...photoFixtures()];
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { RawImage } from '../types';
+import { runPipeline } from '../services/pipeline';
+import { encodePng } from '../services/pngEncoder';
+import { decodeImage } from '../cli/imageIO';
+import { Fixture } from './fixtures';
+
+// Golden outputs of the pipeline: one RGBA PNG per fixture in tests/golden/. A run matches its golden
+// when every channel of every pixel is within GOLDEN_TOLERANCE levels, which absorbs floating-point
+// differences between platforms but not a real change in shadow density or edges.
+// Regenerate after an intentional change with `npm run test:update-goldens` and review the PNG diffs.
+
+export const GOLDEN_DIR = path.join(import.meta.dirname, 'golden');
+
+// Actual outputs and diff images of failed comparisons, for inspection (not checked in)
+export const FAILURE_DIR = path.join(import.meta.dirname, 'output');
+
+export const GOLDEN_TOLERANCE = 2;
+
+export interface ImageComparison {
+  sizeMatches: boolean;
+  mismatched: number; // Pixels with any channel off by more than the tolerance
+  maxDelta: number; // Largest channel difference over the whole image
+  diff: RawImage | null; // Red where pixels mismatch, dimmed actual output elsewhere; null on a size mismatch
+}
+
+export const goldenPath = (fixture: Fixture) => path.join(GOLDEN_DIR, `${fixture.name}.png`);
+
+export const renderFixture = (fixture: Fixture): RawImage => runPipeline(fixture.load(), fixture.params).image;
+
+export const compareImages = (actual: RawImage, expected: RawImage, tolerance = GOLDEN_TOLERANCE): ImageComparison => {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    return { sizeMatches: false, mismatched: Math.max(actual.width * actual.height, expected.width * expected.height), maxDelta: 255, diff: null };
+  }
+
+  const diff = new Uint8ClampedArray(actual.data.length);
+  let mismatched = 0;
+  let maxDelta = 0;
+  for (let idx = 0; idx < actual.data.length; idx += 4) {
+    let delta = 0;
+    for (let c = 0; c < 4; c++) delta = Math.max(delta, Math.abs(actual.data[idx + c] - expected.data[idx + c]));
+    maxDelta = Math.max(maxDelta, delta);
+    if (delta > tolerance) {
+      mismatched++;
+      diff.set([255, 0, 0, 255], idx);
+    } else {
+      // Output composited over mid grey at a third of its contrast, so the red stands out
+      const a = actual.data[idx + 3] / 255;
+      for (let c = 0; c < 3; c++) diff[idx + c] = 128 + ((actual.data[idx + c] * a + 128 * (1 - a)) - 128) / 3;
+      diff[idx + 3] = 255;
+    }
+  }
+  return { sizeMatches: true, mismatched, maxDelta, diff: { width: actual.width, height: actual.height, data: diff } };
+};
+
+export const readGolden = (fixture: Fixture): RawImage | null => {
+  const file = goldenPath(fixture);
+  return fs.existsSync(file) ? decodeImage(fs.readFileSync(file), file) : null;
+};
+
+export const writePng = (file: string, image: RawImage) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, encodePng(image));
+};
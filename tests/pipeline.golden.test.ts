@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { loadFixtures } from './fixtures';
+import { compareImages, FAILURE_DIR, GOLDEN_TOLERANCE, goldenPath, readGolden, renderFixture, writePng } from './goldenImages';
+
+// Every fixture through the full pipeline, against its golden output. On a mismatch the actual output
+// and a diff image are written to tests/output/.
+
+for (const fixture of loadFixtures()) {
+  test(`${fixture.name}: ${fixture.description}`, () => {
+    const expected = readGolden(fixture);
+    assert.ok(expected, `Missing golden ${path.relative(process.cwd(), goldenPath(fixture))}; run npm run test:update-goldens`);
+
+    const actual = renderFixture(fixture);
+    const comparison = compareImages(actual, expected);
+    if (comparison.mismatched > 0) {
+      writePng(path.join(FAILURE_DIR, `${fixture.name}.actual.png`), actual);
+      if (comparison.diff) writePng(path.join(FAILURE_DIR, `${fixture.name}.diff.png`), comparison.diff);
+    }
+
+    assert.ok(comparison.sizeMatches, `Output is ${actual.width}x${actual.height}, golden is ${expected.width}x${expected.height}`);
+    assert.equal(
+      comparison.mismatched,
+      0,
+      `${comparison.mismatched} pixels differ by more than ${GOLDEN_TOLERANCE} levels (max ${comparison.maxDelta}); see ${path.relative(process.cwd(), FAILURE_DIR)}`
+    );
+  });
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RawImage } from '../types';
+import { DEFAULT_PARAMS } from '../constants';
+import { runPipeline, TILE_SIZE } from '../services/pipeline';
+
+// A frame larger than one tile in both directions. Two bars end a few pixels past the vertical and the
+// horizontal seam, so shave and feather near the seams depend on pixels of the neighboring tile;
+// a ring and a shadow sit on the seam crossing.
+const largeScene = (): RawImage => {
+  const width = TILE_SIZE + 180;
+  const height = TILE_SIZE + 60;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ring = Math.abs(Math.hypot(x - TILE_SIZE, y - TILE_SIZE) - 40) < 12;
+      const bar = (x >= TILE_SIZE - 30 && x < TILE_SIZE + 2 && y >= 200 && y < 700)
+        || (y >= TILE_SIZE - 30 && y < TILE_SIZE + 2 && x >= 200 && x < 700);
+      const shadow = Math.max(0, 1 - Math.hypot((x - TILE_SIZE) / 120, (y - TILE_SIZE - 30) / 20));
+      const v = ring || bar ? 40 : 245 - 70 * shadow;
+      data.set([v, v, ring ? 120 : v, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+test('tiled output matches a single-tile render across tile seams', () => {
+  const input = largeScene();
+  const params = { ...DEFAULT_PARAMS, fadeStrength: 4, shavePx: 2, featherWidth: 3, maxHoleArea: 500 };
+  const tiled = runPipeline(input, params).image;
+  const whole = runPipeline(input, params, { tileSize: Math.max(input.width, input.height) }).image;
+
+  assert.equal(tiled.width, whole.width);
+  assert.equal(tiled.height, whole.height);
+  let mismatched = 0;
+  for (let i = 0; i < tiled.data.length; i++) if (tiled.data[i] !== whole.data[i]) mismatched++;
+  assert.equal(mismatched, 0, `${mismatched} channel values differ`);
+
+  // The scene must actually produce object and shadow pixels near the seams
+  let opaque = 0;
+  let partial = 0;
+  for (let i = 3; i < tiled.data.length; i += 4) {
+    if (tiled.data[i] === 255) opaque++;
+    else if (tiled.data[i] > 0) partial++;
+  }
+  assert.ok(opaque > 1000 && partial > 1000, `opaque ${opaque}, partial ${partial}`);
+});
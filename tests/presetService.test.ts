@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_CANVAS_EDGE } from '../constants';
+import { sanitizeParams } from '../services/presetService';
+
+test('sanitizeParams clamps out-of-range numbers', () => {
+  const params = sanitizeParams({ colorTolerance: 500, fadeStrength: -3 });
+  assert.equal(params.colorTolerance, 128);
+  assert.equal(params.fadeStrength, 1);
+});
+
+test('sanitizeParams rejects a canvas larger than the maximum', () => {
+  assert.equal(sanitizeParams({ canvasWidth: MAX_CANVAS_EDGE, canvasHeight: MAX_CANVAS_EDGE }).canvasWidth, MAX_CANVAS_EDGE);
+  assert.throws(() => sanitizeParams({ canvasWidth: 20000, canvasHeight: 2000 }), /canvasWidth/);
+  assert.throws(() => sanitizeParams({ canvasWidth: 2000, canvasHeight: MAX_CANVAS_EDGE + 1 }), /canvasHeight/);
+});
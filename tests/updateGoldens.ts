@@ -0,0 +1,25 @@
+import path from 'node:path';
+import { loadFixtures } from './fixtures';
+import { compareImages, goldenPath, readGolden, renderFixture, writePng } from './goldenImages';
+
+// Rewrites the golden output of every fixture from the current pipeline (npm run test:update-goldens).
+// Only run this for an intentional change in output, and review the changed PNGs before committing them.
+// Goldens still within tolerance are left alone, so the diff shows only real changes.
+
+for (const fixture of loadFixtures()) {
+  const actual = renderFixture(fixture);
+  const previous = readGolden(fixture);
+  const comparison = previous && compareImages(actual, previous);
+  const file = goldenPath(fixture);
+  const unchanged = comparison !== null && comparison.sizeMatches && comparison.mismatched === 0;
+  if (!unchanged) writePng(file, actual);
+
+  const change = !comparison
+    ? 'new'
+    : !comparison.sizeMatches
+      ? 'size changed'
+      : unchanged
+        ? 'unchanged'
+        : `${comparison.mismatched} pixels changed (max ${comparison.maxDelta} levels)`;
+  console.log(`${path.relative(process.cwd(), file)}: ${change}`);
+}
@@ -2,30 +2,471 @@ export interface ProcessedImage {
   id: string;
   originalUrl: string;
   processedUrl: string;
+  format: OutputFormat; // Encoding of processedUrl
+  fileName: string; // Source path, with the folders of a dropped or picked folder
+  sourceFile: File; // Kept so the image can be previewed/reprocessed with new settings
+  width: number; // Output dimensions (after the layout stage)
+  height: number;
+  layout: CanvasLayout | null; // Crop box and placement, mapped through by the mask editor
+  background: BackgroundModel; // Detected (or manual) key, shown next to the result
+  strokes: MaskStroke[]; // Manual refinements, re-applied whenever the image is reprocessed
+  redoStrokes: MaskStroke[]; // Undone strokes, most recent last
+  params: AlgorithmParams; // Settings the current result was rendered with
+  overrides: ParamOverrides; // Per-image settings on top of the batch preset
+  previewScale: number; // Below 1 until the full-resolution result replaces the preview
+  createdAt: number; // ms since epoch
+}
+
+// A file waiting in the upload queue
+export interface QueuedFile {
+  id: string;
+  file: File;
+  path: string; // InputFile path; becomes the result's fileName, so output names keep the folders
+  overrides: ParamOverrides;
+}
+
+// Records persisted in IndexedDB by services/sessionStore.ts, so a reload keeps the session
+
+// One "Process" run; its results are listed together in the history
+export interface StoredJob {
+  id: string;
+  createdAt: number; // ms since epoch
+  normalization?: number; // Shared key distance for toleranceMode 'batch'
+}
+
+// A full-resolution result with its source, output and everything needed to reprocess it
+export interface StoredResult {
+  id: string;
+  jobId: string;
   fileName: string;
+  source: File;
+  output: Blob;
+  format: OutputFormat;
   width: number;
   height: number;
+  layout: CanvasLayout | null;
+  background: BackgroundModel;
+  strokes: MaskStroke[];
+  redoStrokes: MaskStroke[];
+  params: AlgorithmParams;
+  overrides: ParamOverrides;
+  position: number; // Order in the job
+  createdAt: number;
+  updatedAt: number; // Last reprocess or refinement
+}
+
+export interface StoredQueuedFile extends QueuedFile {
+  position: number; // Order in the queue
+}
+
+export interface StoredSettings {
+  params: AlgorithmParams;
+  exportSettings: ExportSettings;
+  backdrop: Backdrop; // image.url is stale after a reload; the image is restored from backdropImage
+  backdropImage: Blob | null;
+  includeLayersInZip: boolean;
+  concurrency?: number; // Images processed at once
+  currentJobId: string | null; // Job shown in the results gallery
+}
+
+// History entry: a job with totals over its stored results
+export interface JobSummary extends StoredJob {
+  fileNames: string[];
+  bytes: number; // Sources plus outputs
+  updatedAt: number;
+}
+
+// What a refinement brush stroke forces the painted pixels to be
+export type StrokeMode = 'object' | 'shadow' | 'background';
+
+export interface MaskStroke {
+  mode: StrokeMode;
+  size: number; // Brush diameter in source image pixels
+  points: [number, number][]; // Source image pixel coordinates
+}
+
+export interface ProcessImageResult {
+  originalUrl: string;
+  processedUrl: string;
+  format: OutputFormat; // Encoding of processedUrl, drives the download extension
+  width: number; // Output dimensions (after the layout stage)
+  height: number;
+  layout: CanvasLayout | null; // Crop box and placement, null when the output is the full source frame
+  background: BackgroundModel;
+  previewScale: number; // 1 = full resolution; below 1 the result was rendered from a downscaled copy
+}
+
+// Separately exportable parts of a result, all encoded and full-size
+export interface LayerExport {
+  object: Blob; // PNG, object only
+  shadow: Blob; // PNG, preserved shadow only
+  matte: Blob; // PNG, grayscale alpha matte
+  synthetic: Blob | null; // PNG, synthetic shadow only; null when the stage is off
+  psd: Blob; // Layered Photoshop document (synthetic shadow, shadow and object layers)
+}
+
+// Pipeline intermediates shown by the lightbox debug view
+export type DebugLayer = 'keyDistance' | 'alphaRaw' | 'objectMask' | 'shadowMask' | 'shavedObj' | 'objectFeather' | 'alpha';
+
+export interface DebugView {
+  width: number; // Frame the overlays were rendered at (source frame, downscaled for large images)
+  height: number;
+  previewScale: number;
+  overlays: Record<DebugLayer, string>; // Object URLs of false-color PNG overlays
+  histogram: number[]; // alphaRaw pixel counts, 256 bins
+}
+
+export interface ProcessOptions {
+  normalization?: number; // Shared key distance for toleranceMode 'batch'
+  strokes?: MaskStroke[];
+  output?: ExportSettings; // Defaults to DEFAULT_EXPORT_SETTINGS
+  previewMaxEdge?: number; // Fast preview: downscale to this longest side, with parameters scaled to match
+  signal?: AbortSignal; // Drops the job from the worker queue, or stops the worker running it
+}
+
+// 'webp-lossless' and 'webp' / 'avif' (lossy) are encoded by the browser's canvas; PNG by our own encoder
+export type OutputFormat = 'png' | 'webp-lossless' | 'webp' | 'avif';
+
+export interface ExportSettings {
+  format: OutputFormat;
+  quality: number; // 0-100, lossy formats only
+  pngCompression: number; // zlib level 0-9
+  bitDepth: 8 | 16; // PNG only
+  premultipliedAlpha: boolean; // Store RGB multiplied by alpha (game engines), PNG only; default is straight alpha
+  dpi: number; // Embedded resolution in PNG and WebP; 0 omits it
+}
+
+export interface OutputFormatInfo {
+  label: string;
+  mime: string;
+  extension: string;
+}
+
+export interface InputFormatInfo {
+  label: string;
+  mime: string;
+  extensions: string[]; // Lowercase, without the dot; the first is used for renamed pasted files
+}
+
+// What the cutout is previewed and composited on. 'none' shows a transparency checkerboard.
+export type BackdropType = 'none' | 'color' | 'gradient' | 'image';
+
+// Which files a download produces once a backdrop is set
+export type CompositeExportMode = 'transparent' | 'composite' | 'both';
+
+export interface BackdropImage {
+  url: string; // Object URL of the uploaded file
+  width: number;
+  height: number;
+  fileName: string;
+}
+
+export interface Backdrop {
+  type: BackdropType;
+  color: [number, number, number];
+  gradientFrom: [number, number, number];
+  gradientTo: [number, number, number];
+  gradientAngle: number; // Degrees, CSS convention (0 = bottom to top, 90 = left to right)
+  image: BackdropImage | null;
+  scale: number; // Cutout size relative to fitting the composite canvas (1 = fit)
+  x: number; // Cutout center, 0-1 across the composite canvas
+  y: number;
+  exportMode: CompositeExportMode;
+}
+
+// Composite canvas and cutout placement, in composite pixels
+export interface CompositeGeometry {
+  width: number;
+  height: number;
+  x: number; // Top-left of the cutout
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+  gradient: [number, number, number, number]; // x1, y1, x2, y2 of the gradient line
+}
+
+export interface EyedropperSettings {
+  active: boolean;
+  sampleSize: number; // Side of the averaged square, in source pixels
+}
+
+// A dropped, pasted or picked file with where it came from
+export interface InputFile {
+  file: File;
+  path: string; // Relative to the dropped or picked folder ("shoot/a/shot.jpg"), else the file name
+}
+
+// A file that was dropped, pasted or picked but could not be queued
+export interface RejectedFile {
+  name: string; // Path of the InputFile
+  reason: string; // Shown to the user, e.g. "Unsupported format"
+}
+
+// Where one file of a batch run is
+export type FileState = 'queued' | 'processing' | 'done' | 'failed';
+
+export interface FileProgress {
+  id: string; // QueuedFile id (and result id once done)
+  fileName: string;
+  state: FileState;
+  error?: string; // Why the file failed
 }
 
 export interface ProcessingStatus {
   isProcessing: boolean;
+  isCancelling: boolean; // Cancel requested; in-flight files are being stopped
   currentStep: string;
   progress: number; // 0 to 100
   totalImages: number;
   completedImages: number;
+  failedImages: number;
+  files: FileProgress[]; // Per-file state of the current (or last) run, in queue order
+}
+
+// 'euclidean' is exact and isotropic, 'manhattan' is the faster L1 chamfer approximation
+export type DistanceMetric = 'euclidean' | 'manhattan';
+
+// 'shadow': grayscale shadow overlay (original behavior)
+// 'color': object keeps its colors, shadows are rendered neutral dark
+// 'cutout': full-color object only, shadows dropped
+export type OutputMode = 'shadow' | 'color' | 'cutout';
+
+// Vertical placement on a fixed canvas. 'bottom' keeps every product on the same baseline.
+export type CanvasAlign = 'center' | 'bottom';
+
+export type ResamplingFilter = 'nearest' | 'bilinear' | 'bicubic' | 'lanczos';
+
+// Shadow generated from the object mask (see services/syntheticShadow.ts), blended with any preserved shadow
+export type SyntheticShadowMode = 'none' | 'contact' | 'drop' | 'both';
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How the output was cropped and placed by the layout stage
+export interface CanvasLayout {
+  cropBox: CropBox; // In source image pixels
+  scale: number; // Output pixels per source pixel
+  offsetX: number; // Top-left of the placed crop on the output canvas
+  offsetY: number;
+  width: number; // Output canvas size
+  height: number;
+}
+
+// How the distance between a pixel and the background key is measured (see services/colorDistance.ts)
+export type ColorMetric = 'rgb' | 'deltaE76' | 'deltaE2000' | 'chroma';
+
+// How colorTolerance/fadeStrength are scaled:
+// 'relative' = by each image's largest key distance, 'absolute' = fixed metric units,
+// 'batch' = by the largest key distance across the whole batch
+export type ToleranceMode = 'relative' | 'absolute' | 'batch';
+
+// Background model fitted to the image border: one flat color, or a smooth per-channel gradient
+export type BackgroundModelType = 'constant' | 'plane' | 'quadratic';
+
+export interface BackgroundModel {
+  type: BackgroundModelType;
+  coefficients: number[][]; // Per channel (R, G, B), polynomial terms in normalized coordinates
+  color: [number, number, number]; // Key color at the image center, for display
+  width: number;
+  height: number;
 }
 
 // Parameters from the Python script provided
 export interface AlgorithmParams {
+  colorMetric: ColorMetric;
+  toleranceMode: ToleranceMode;
   colorTolerance: number;
   fadeStrength: number;
   shavePx: number;
   featherWidth: number;
   objectThreshold: number;
+  minSpeckArea: number; // Object/shadow islands smaller than this (px) are removed
+  maxHoleArea: number; // Enclosed holes in the object up to this size (px) are filled
+  keepLargestObject: boolean; // Keep only the main subject and the shadows touching it
   edgeDesat: number;
   edgeDark: number;
   globalDarkFactor: number;
   alphaBoost: number; // Multiplier to increase shadow density
   autoDetectBg: boolean;
+  borderBand: number; // Width in pixels of the border sampled by auto-detect
+  bgModel: BackgroundModelType;
   manualBgColor: [number, number, number];
-}
\ No newline at end of file
+  extraKeyColors: [number, number, number][]; // More manual key samples; distance is to the nearest key
+  distanceMetric: DistanceMetric; // Used by shave and feather
+  outputMode: OutputMode;
+  autoCrop: boolean; // Trim to the bounding box of non-transparent pixels
+  canvasWidth: number; // Fixed output canvas; 0 (either side) = no fixed canvas
+  canvasHeight: number;
+  canvasPadding: number; // Margin in output pixels
+  canvasAlign: CanvasAlign;
+  resampling: ResamplingFilter; // Used when fitting into the canvas scales the subject
+  syntheticShadow: SyntheticShadowMode;
+  shadowAngle: number; // Direction of the drop shadow in degrees (0 = right, 90 = down)
+  shadowDistance: number; // Drop shadow offset in source pixels
+  shadowBlur: number; // Softness in source pixels (the contact shadow uses a quarter of it)
+  shadowOpacity: number; // 0-1
+  shadowSkew: number; // Horizontal shear per pixel of height; also flattens the drop shadow
+  shadowFalloff: number; // 0-1, fade toward the projected top of the subject
+}
+
+export type NumericParamKey = {
+  [K in keyof AlgorithmParams]: AlgorithmParams[K] extends number ? K : never
+}[keyof AlgorithmParams];
+
+export type BooleanParamKey = {
+  [K in keyof AlgorithmParams]: AlgorithmParams[K] extends boolean ? K : never
+}[keyof AlgorithmParams];
+
+export type ChoiceParamKey = {
+  [K in keyof AlgorithmParams]: AlgorithmParams[K] extends string ? K : never
+}[keyof AlgorithmParams];
+
+// UI metadata for a parameter picked from a fixed set of values
+export interface ParamChoice {
+  label: string;
+  options: { value: string; label: string }[];
+}
+
+// UI metadata for a numeric parameter (mirrors the ranges documented in constants.ts)
+export interface ParamRange {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ParamPreset {
+  name: string;
+  params: AlgorithmParams;
+  builtIn?: boolean;
+}
+
+// Shape of an exported preset JSON file
+export interface PresetFile {
+  version: number;
+  presets: ParamPreset[];
+}
+
+// Per-image parameters that replace the batch preset's values
+export type ParamOverrides = Partial<AlgorithmParams>;
+
+// Parameter record written into batch ZIP exports
+export interface BatchManifest {
+  version: number;
+  preset: AlgorithmParams; // Batch settings at export time
+  files: {
+    source: string;
+    outputs: string[]; // File names in the archive
+    params: AlgorithmParams; // Settings the outputs were rendered with (preset + overrides)
+    overrides: ParamOverrides;
+    strokes: number; // Manual refinement strokes applied
+  }[];
+}
+
+// Decoded RGBA pixels, independent of any DOM type
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>; // RGBA flat array
+}
+
+export interface PipelineOptions {
+  includeMasks?: boolean; // Also return the intermediate masks
+  normalization?: number; // Shared key distance for toleranceMode 'batch' (see measureKeyDistance)
+  strokes?: MaskStroke[]; // Hard constraints on the object/shadow masks
+  skipLayout?: boolean; // Return the full source frame; the caller applies result.layout itself
+  separateShadow?: boolean; // Leave the synthetic shadow out of the image (it is still in masks)
+  signal?: AbortSignal; // Cancels the run between stages
+  tileSize?: number; // Side of the tiles of the distance-based steps; the output does not depend on it
+}
+
+// Intermediate buffers of the pipeline, one entry per pixel
+export interface PipelineMasks {
+  keyDistance: Float32Array; // Color distance to the background key, in colorMetric units
+  alphaRaw: Uint8Array;
+  objectMask: Uint8Array; // 0 or 1
+  shadowMask: Uint8Array; // 0 or 1
+  shavedObj: Uint8Array; // 0 or 1
+  objectFeather: Float32Array; // 0.0 to 1.0
+  alpha: Uint8Array; // Final alpha
+  syntheticShadow: Uint8Array | null; // Synthetic shadow alpha, null when the stage is off
+}
+
+export interface PipelineResult {
+  image: RawImage;
+  background: BackgroundModel;
+  masks?: PipelineMasks; // Always in source frame coordinates
+  layout: CanvasLayout | null; // Planned (and, unless skipLayout, applied) catalog layout
+}
+
+// Messages exchanged with services/processingWorker.ts
+export interface WorkerRequest {
+  task: 'process' | 'measure' | 'layers' | 'debug';
+  buffer: ArrayBuffer; // Encoded source image (transferred)
+  type: string;
+  params: AlgorithmParams;
+  normalization?: number;
+  strokes?: MaskStroke[];
+  output?: ExportSettings;
+  previewMaxEdge?: number;
+}
+
+// Format conversion on intake: a TIFF is decoded and re-encoded as PNG off the main thread
+export interface WorkerConvertRequest {
+  task: 'convert';
+  buffer: ArrayBuffer; // Encoded source image (transferred)
+  type: string;
+}
+
+export interface WorkerResult {
+  encoded: ArrayBuffer; // Encoded output in output.format (transferred)
+  format: OutputFormat;
+  width: number;
+  height: number;
+  background: BackgroundModel;
+  layout: CanvasLayout | null;
+  previewScale: number;
+}
+
+export interface WorkerMeasurement {
+  maxDist: number;
+}
+
+export interface WorkerLayers {
+  // Encoded files (transferred)
+  object: ArrayBuffer;
+  shadow: ArrayBuffer;
+  matte: ArrayBuffer;
+  synthetic: ArrayBuffer | null;
+  psd: ArrayBuffer;
+}
+
+export interface WorkerDebug {
+  overlays: Record<DebugLayer, ArrayBuffer>; // Encoded PNGs (transferred)
+  histogram: number[];
+  width: number;
+  height: number;
+  previewScale: number;
+}
+
+export interface WorkerConversion {
+  png: ArrayBuffer; // Encoded PNG (transferred)
+}
+
+export type WorkerResponse = WorkerResult | WorkerMeasurement | WorkerLayers | WorkerDebug | WorkerConversion | { error: string };
+
+// Messages exchanged with cli/cliWorker.ts
+export interface CliJob {
+  input: string;
+  output: string;
+  params: AlgorithmParams;
+  measureOnly?: boolean; // Only report the key distance (toleranceMode 'batch')
+  normalization?: number;
+  exportSettings: ExportSettings; // PNG options (other formats need a browser encoder)
+}
+
+export type CliJobResult = { ok: true; maxDist?: number } | { ok: false; error: string };
\ No newline at end of file